@@ -0,0 +1,182 @@
+/**
+ * Frame compositor — renders the full logical screen as it looks after any
+ * frame, the way a browser would show it.
+ *
+ * `decodeAndBlitFrameRGBA()` only paints one frame's rectangle. Getting the
+ * actual picture for frame N means replaying frames 0 .. N and applying each
+ * one's disposal method before the next is drawn:
+ *
+ *   0, 1 — leave the frame in place.
+ *   2    — clear the frame's rectangle (to transparent, like every browser
+ *          does, rather than to the background colour).
+ *   3    — restore the canvas to what it was before the frame was drawn.
+ *
+ * With `plainText` on, Plain Text Extensions are rasterized with the
+ * built-in font onto the canvas right before the frame that follows them.
+ * A text block's own disposal is applied before the next frame is drawn, so
+ * only text with disposal 0 or 1 shows in rendered frames. Rendering goes
+ * by image frame: a text block's delay adds no frame of its own, and text
+ * after the last frame is never drawn.
+ *
+ * To keep random access cheap, a snapshot of the canvas is cached every
+ * `keyframeInterval` frames; rendering frame N replays from the closest
+ * snapshot at or before N (or simply continues when going forward).
+ */
+
+import type { Frame, PlainText } from './types'
+import { GifBufferOverflowError, GifLimitError } from './errors'
+
+/** What the compositor needs from a decoder — `Reader` and `GifParser` both fit. */
+export interface FrameSource {
+  getWidth: () => number
+  getHeight: () => number
+  numFrames: () => number
+  frameInfo: (frame_num: number) => Frame
+  decodeAndBlitFrameRGBA: (frame_num: number, pixels: Uint8Array) => void
+  /** Only needed for the `plainText` option. */
+  getPlainTexts?: () => PlainText[]
+  decodeAndBlitPlainTextRGBA?: (text_num: number, pixels: Uint8Array) => void
+}
+
+export interface CompositorOptions {
+  /**
+   * Cache a snapshot of the canvas every this many frames. Lower values make
+   * random access faster at the cost of `width * height * 4` bytes each.
+   * Default `16`.
+   */
+  keyframeInterval?: number
+  /**
+   * Draw Plain Text Extensions with the built-in monospace font. Browsers
+   * ignore them, so this is off by default. Text that disposes of itself
+   * (disposal 2 or 3) is gone again by the next frame. Default `false`.
+   */
+  plainText?: boolean
+}
+
+export class Compositor {
+  private source: FrameSource
+  private width: number
+  private height: number
+  private interval: number
+  private plainText: boolean
+  // Canvas right before frame `index` is drawn (earlier disposals applied).
+  private keyframes: Map<number, Uint8Array> = new Map()
+  private canvas: Uint8Array
+  // Last frame drawn onto `canvas`, -1 when nothing has been drawn.
+  private cursor: number = -1
+  // Whether the cursor frame's disposal has already been applied.
+  private disposed: boolean = true
+  // Canvas before the cursor frame was drawn, for disposal 3.
+  private previous: Uint8Array | null = null
+
+  constructor(source: FrameSource, options: CompositorOptions = {}) {
+    this.source = source
+    this.width = source.getWidth()
+    this.height = source.getHeight()
+    this.interval = Math.max(1, Math.floor(options.keyframeInterval ?? 16))
+    this.plainText = (options.plainText ?? false)
+      && source.getPlainTexts !== undefined
+      && source.decodeAndBlitPlainTextRGBA !== undefined
+    this.canvas = new Uint8Array(this.width * this.height * 4)
+  }
+
+  /**
+   * Full-canvas RGBA of frame `frame_num` as displayed. Writes into `out`
+   * when given (it must hold `width * height * 4` bytes), otherwise returns
+   * a fresh array.
+   */
+  renderFrame(frame_num: number, out?: Uint8Array): Uint8Array {
+    if (frame_num < 0 || frame_num >= this.source.numFrames())
+      throw new GifLimitError('Frame index out of range.', 'frame-index-out-of-range', { frameIndex: frame_num })
+
+    if (frame_num !== this.cursor) {
+      // Closest snapshot at or before the target.
+      let start = frame_num - frame_num % this.interval
+      while (start > 0 && !this.keyframes.has(start)) start -= this.interval
+
+      // Going forward from where we are beats reloading an older snapshot.
+      if (!(this.cursor >= start && this.cursor < frame_num)) {
+        const snapshot = this.keyframes.get(start)
+        if (snapshot)
+          this.canvas.set(snapshot)
+        else
+          this.canvas.fill(0)
+        this.cursor = start - 1
+        this.disposed = true
+      }
+
+      while (this.cursor < frame_num) this.step()
+    }
+
+    const target = out ?? new Uint8Array(this.canvas.length)
+    if (target.length < this.canvas.length)
+      throw new GifBufferOverflowError('Output buffer too small for the canvas.', 'buffer-overflow', { frameIndex: frame_num })
+    target.set(this.canvas)
+    return target
+  }
+
+  /** Drop every cached snapshot (the current canvas is kept). */
+  clearCache(): void {
+    this.keyframes.clear()
+  }
+
+  // Draw the frame after the cursor.
+  private step(): void {
+    if (!this.disposed)
+      this.dispose(this.source.frameInfo(this.cursor))
+
+    const next = this.cursor + 1
+    if (next % this.interval === 0 && next > 0 && !this.keyframes.has(next))
+      this.keyframes.set(next, this.canvas.slice())
+
+    if (this.plainText)
+      this.drawPlainTexts(next)
+
+    const frame = this.source.frameInfo(next)
+    if (frame.disposal === 3) {
+      if (this.previous)
+        this.previous.set(this.canvas)
+      else
+        this.previous = this.canvas.slice()
+    }
+
+    this.source.decodeAndBlitFrameRGBA(next, this.canvas)
+    this.cursor = next
+    this.disposed = false
+  }
+
+  // Plain text blocks that sit between the previous frame and this one.
+  // Each is a graphic with its own disposal, applied before whatever is
+  // drawn next.
+  private drawPlainTexts(frame_num: number): void {
+    const texts = this.source.getPlainTexts!()
+    for (let i = 0; i < texts.length; i++) {
+      const text = texts[i]
+      if (text.frame_index !== frame_num) continue
+
+      const before = text.disposal === 3 ? this.canvas.slice() : null
+      this.source.decodeAndBlitPlainTextRGBA!(i, this.canvas)
+      if (text.disposal === 2)
+        this.clear(text)
+      else if (before)
+        this.canvas.set(before)
+    }
+  }
+
+  private dispose(frame: Frame): void {
+    if (frame.disposal === 2)
+      this.clear(frame)
+    else if (frame.disposal === 3 && this.previous)
+      this.canvas.set(this.previous)
+    this.disposed = true
+  }
+
+  // Clear a rectangle to transparent, clipped to the canvas.
+  private clear(area: { x: number, y: number, width: number, height: number }): void {
+    const x0 = Math.min(area.x, this.width)
+    const x1 = Math.min(area.x + area.width, this.width)
+    const y1 = Math.min(area.y + area.height, this.height)
+    for (let y = area.y; y < y1; y++)
+      this.canvas.fill(0, (y * this.width + x0) * 4, (y * this.width + x1) * 4)
+  }
+}
@@ -0,0 +1,242 @@
+/**
+ * Concatenation — plays several GIFs one after another as a single file.
+ *
+ * Each clip is fitted into a box on the output screen, then its frames are
+ * carried over as index streams, the same way `optimize()` re-encodes:
+ *
+ *   1. **Fitting** — `'letterbox'` scales a clip to fit the screen without
+ *      changing its aspect ratio and centres it, `'scale'` stretches it to
+ *      fill the screen. Scaling goes through `resize()`; with the default
+ *      `'nearest'` filter palettes stay exact. Bars around a box are left
+ *      transparent.
+ *
+ *   2. **Hand-over** — the last frame of every clip clears its whole box
+ *      when it is done (disposal 2), so nothing of it shows through the
+ *      transparent pixels of the clip after it, or of the first clip when
+ *      the animation loops.
+ *
+ *   3. **Palettes** — if every clip's colours together fit 256, one global
+ *      colour table serves them all (`tryGlobalPalette`). Otherwise every
+ *      frame gets its own tightened local table.
+ *
+ * Comments, application extensions and plain text stay with the frames they
+ * were next to, plain text scaled along with its clip. The result gets one
+ * loop count, by default the first clip's.
+ */
+
+import type { CarriedPlainText, DecodedFrame, StreamInfo } from './optimize'
+import type { ResizeFilter } from './resize'
+import type { GifApplicationExtension, GifComment, PlainText } from './types'
+import { Buffer } from 'node:buffer'
+import { GifEncodeError, GifFormatError, GifLimitError } from './errors'
+import { carryPlainTexts, tightenLocalPalettes, tryGlobalPalette } from './optimize'
+import { decodeFrameIndices, Reader } from './reader'
+import { resize } from './resize'
+
+export type ConcatFit = 'letterbox' | 'scale'
+
+export interface ConcatOptions {
+  /** Logical screen width of the result. Default the first GIF's. */
+  width?: number
+  /** Logical screen height of the result. Default the first GIF's. */
+  height?: number
+  /** How clips of another size are fitted to the screen. Default `'letterbox'`. */
+  fit?: ConcatFit
+  /** Filter used to scale clips. Default `'nearest'`. */
+  filter?: ResizeFilter
+  /**
+   * Number of extra loops, `0` for forever, `null` to play once. Default the
+   * first GIF's loop count.
+   */
+  loop?: number | null
+}
+
+/** Where a clip goes on the output screen. */
+interface Box {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * Join GIFs end to end. Returns the encoded bytes.
+ */
+export function concat(inputs: Uint8Array[], options: ConcatOptions = {}): Uint8Array {
+  if (inputs.length === 0) {
+    throw new GifEncodeError('At least one GIF is required.', 'no-frames')
+  }
+
+  const first = new Reader(Buffer.from(inputs[0]))
+  const width = options.width ?? first.getWidth()
+  const height = options.height ?? first.getHeight()
+  if (!Number.isInteger(width) || !Number.isInteger(height)
+    || width <= 0 || height <= 0 || width > 65535 || height > 65535) {
+    throw new GifLimitError('Width/Height invalid.', 'dimensions-out-of-range')
+  }
+
+  const fit = options.fit ?? 'letterbox'
+  if (fit !== 'letterbox' && fit !== 'scale') {
+    throw new GifEncodeError(`Unknown concat fit: ${String(fit)}`, 'invalid-option')
+  }
+
+  const frames: DecodedFrame[] = []
+  const comments: GifComment[] = []
+  const applications: GifApplicationExtension[] = []
+  const plainTexts: CarriedPlainText[] = []
+
+  for (const input of inputs) {
+    // resize() keeps every frame but not what sits between them, so that
+    // comes from the clip as it was.
+    const source = new Reader(Buffer.from(input))
+    let buf = Buffer.from(input)
+    let reader = source
+    const box = fitBox(source.getWidth(), source.getHeight(), width, height, fit)
+    if (box.width !== source.getWidth() || box.height !== source.getHeight()) {
+      buf = Buffer.from(resize(input, { width: box.width, height: box.height, filter: options.filter ?? 'nearest' }))
+      reader = new Reader(buf)
+    }
+
+    const offset = frames.length
+    for (let i = 0; i < reader.numFrames(); i++)
+      frames.push(placeFrame(buf, reader, i, box))
+
+    for (const comment of source.getComments())
+      comments.push({ ...comment, frameIndex: comment.frameIndex + offset })
+    for (const app of source.getApplicationExtensions())
+      applications.push({ ...app, frameIndex: app.frameIndex + offset })
+    for (const carried of carryPlainTexts(source)) {
+      const text = placeText(carried.text, source.getWidth(), source.getHeight(), box)
+      plainTexts.push({ ...carried, text: { ...text, frame_index: text.frame_index + offset } })
+    }
+
+    if (inputs.length > 1 && frames.length > offset)
+      frames[frames.length - 1] = clearBox(frames[frames.length - 1], box)
+  }
+
+  const stream: StreamInfo = {
+    width,
+    height,
+    loopCount: options.loop === undefined ? first.getLoopCount() : options.loop,
+    pixelAspectRatio: first.getPixelAspectRatio(),
+    comments,
+    applications,
+    plainTexts,
+  }
+
+  const delays = frames.map(f => f.info.delay)
+  return tryGlobalPalette(frames, stream, delays, 0) ?? tightenLocalPalettes(frames, stream, delays, 0)
+}
+
+// ───────────────────────────────────────────────────────────────────────────
+// Helpers
+// ───────────────────────────────────────────────────────────────────────────
+
+function fitBox(clipWidth: number, clipHeight: number, width: number, height: number, fit: ConcatFit): Box {
+  if (fit === 'scale') return { x: 0, y: 0, width, height }
+
+  const scale = Math.min(width / clipWidth, height / clipHeight)
+  const boxWidth = Math.min(width, Math.max(1, Math.round(clipWidth * scale)))
+  const boxHeight = Math.min(height, Math.max(1, Math.round(clipHeight * scale)))
+  return {
+    x: Math.floor((width - boxWidth) / 2),
+    y: Math.floor((height - boxHeight) / 2),
+    width: boxWidth,
+    height: boxHeight,
+  }
+}
+
+/**
+ * A plain text grid of a `clipWidth` × `clipHeight` clip scaled into `box`,
+ * cells and all.
+ */
+function placeText(text: PlainText, clipWidth: number, clipHeight: number, box: Box): PlainText {
+  const sx = box.width / clipWidth
+  const sy = box.height / clipHeight
+  const scale = (v: number, s: number, max: number) => Math.min(max, Math.max(1, Math.round(v * s)))
+  return {
+    ...text,
+    x: box.x + Math.round(text.x * sx),
+    y: box.y + Math.round(text.y * sy),
+    width: scale(text.width, sx, 65535),
+    height: scale(text.height, sy, 65535),
+    cell_width: scale(text.cell_width, sx, 255),
+    cell_height: scale(text.cell_height, sy, 255),
+  }
+}
+
+/**
+ * Frame `i` of a clip already scaled to `box`, clipped to the box and moved
+ * into place. A frame left with nothing becomes a single transparent pixel
+ * so its delay isn't lost.
+ */
+function placeFrame(buf: Buffer, reader: Reader, i: number, box: Box): DecodedFrame {
+  const info = reader.frameInfo(i)
+  const palette = reader.getFramePalette(i)
+  if (palette === null) {
+    throw new GifFormatError('No palette found for frame', 'missing-palette', { frameIndex: i })
+  }
+
+  const width = Math.min(info.x + info.width, box.width) - info.x
+  const height = Math.min(info.y + info.height, box.height) - info.y
+  if (width <= 0 || height <= 0) {
+    const transparent = info.transparent_index ?? 0
+    return {
+      info: { ...info, x: box.x, y: box.y, width: 1, height: 1, disposal: 1, transparent_index: transparent },
+      indices: new Uint8Array([transparent]),
+      palette,
+      usedSet: new Set([transparent]),
+    }
+  }
+
+  const full = decodeFrameIndices(buf, info)
+  let indices = full
+  if (width !== info.width || height !== info.height) {
+    indices = new Uint8Array(width * height)
+    for (let row = 0; row < height; row++)
+      indices.set(full.subarray(row * info.width, row * info.width + width), row * width)
+  }
+
+  const usedSet = new Set<number>(indices)
+  if (info.transparent_index !== null) usedSet.add(info.transparent_index)
+  return {
+    info: { ...info, x: box.x + info.x, y: box.y + info.y, width, height },
+    indices,
+    palette,
+    usedSet,
+  }
+}
+
+/**
+ * Make `frame` clear the whole box when it is done: grow it to the box,
+ * filling the new area with a transparent index, and set disposal 2.
+ */
+function clearBox(frame: DecodedFrame, box: Box): DecodedFrame {
+  const { info } = frame
+  const covers = info.x === box.x && info.y === box.y && info.width === box.width && info.height === box.height
+  let transparent = info.transparent_index
+  if (transparent === null && !covers) {
+    // Any index no pixel uses will do.
+    transparent = Array.from({ length: 256 }, (_, n) => n).find(n => !frame.usedSet.has(n)) ?? null
+  }
+
+  // All 256 indices drawn and none transparent: the frame can't grow, so
+  // only its own rectangle gets cleared.
+  if (covers || transparent === null)
+    return { ...frame, info: { ...info, disposal: 2 } }
+
+  const indices = new Uint8Array(box.width * box.height).fill(transparent)
+  for (let row = 0; row < info.height; row++) {
+    const at = (info.y - box.y + row) * box.width + (info.x - box.x)
+    indices.set(frame.indices.subarray(row * info.width, (row + 1) * info.width), at)
+  }
+
+  const usedSet = new Set(frame.usedSet)
+  usedSet.add(transparent)
+  return {
+    info: { ...info, ...box, disposal: 2, transparent_index: transparent },
+    indices,
+    palette: frame.palette,
+    usedSet,
+  }
+}
@@ -0,0 +1,304 @@
+/**
+ * Dithering — map RGBA pixels onto a fixed palette while hiding banding.
+ *
+ * Two families:
+ *
+ *   1. **Error diffusion** (Floyd–Steinberg, Atkinson, Sierra) — each pixel's
+ *      quantization error is pushed onto its not-yet-visited neighbours.
+ *      Best quality on stills, but a one-pixel change anywhere upstream
+ *      reshuffles the noise downstream, so animations "crawl".
+ *
+ *   2. **Ordered (Bayer)** — a fixed threshold matrix is added before the
+ *      palette lookup. Every pixel is decided independently, so static areas
+ *      of an animation stay static from frame to frame.
+ *
+ * The palette is typically the one `quantize()` produced; the output index
+ * stream goes straight into `Writer.addFrame()`.
+ */
+
+import { GifEncodeError, GifLimitError } from './errors'
+import { createPaletteMatcher } from './quantize'
+
+export type DitherMethod = 'none' | 'floyd-steinberg' | 'atkinson' | 'sierra' | 'bayer'
+
+export interface DitherOptions {
+  /** Dithering algorithm. Default `'floyd-steinberg'`. */
+  method?: DitherMethod
+  /**
+   * How much of the effect to apply, 0 .. 1. `0` is plain nearest-colour
+   * mapping. Default `1`.
+   */
+  strength?: number
+  /** Side of the Bayer threshold matrix (ordered dithering only). Default `8`. */
+  bayerSize?: 2 | 4 | 8
+  /**
+   * Alternate scan direction on every row (error diffusion only), which
+   * avoids the diagonal "worm" artifacts of a plain raster scan. Default `true`.
+   */
+  serpentine?: boolean
+  /**
+   * Palette index for see-through pixels. When set, pixels with an alpha
+   * below `alphaThreshold` map here and never receive or spread error; the
+   * slot is never picked for opaque pixels. When unset, alpha is ignored.
+   */
+  transparent?: number
+  /** Alpha cut-off used together with `transparent`. Default `128`. */
+  alphaThreshold?: number
+}
+
+/** Diffusion kernel: `[dx, dy, weight]` triples plus their common divisor. */
+interface Kernel {
+  taps: Array<[number, number, number]>
+  divisor: number
+}
+
+const KERNELS: Record<'floyd-steinberg' | 'atkinson' | 'sierra', Kernel> = {
+  'floyd-steinberg': {
+    taps: [[1, 0, 7], [-1, 1, 3], [0, 1, 5], [1, 1, 1]],
+    divisor: 16,
+  },
+  // Atkinson only spreads 6/8 of the error, which keeps highlights and
+  // shadows crisp at the cost of some contrast.
+  'atkinson': {
+    taps: [[1, 0, 1], [2, 0, 1], [-1, 1, 1], [0, 1, 1], [1, 1, 1], [0, 2, 1]],
+    divisor: 8,
+  },
+  'sierra': {
+    taps: [
+      [1, 0, 5],
+      [2, 0, 3],
+      [-2, 1, 2],
+      [-1, 1, 4],
+      [0, 1, 5],
+      [1, 1, 4],
+      [2, 1, 2],
+      [-1, 2, 2],
+      [0, 2, 3],
+      [1, 2, 2],
+    ],
+    divisor: 32,
+  },
+}
+
+/**
+ * Map an RGBA image onto `palette`, returning one palette index per pixel.
+ * The palette may be any length up to 256; it doesn't need to be padded.
+ */
+export function dither(
+  rgba: Uint8Array,
+  width: number,
+  height: number,
+  palette: number[],
+  options: DitherOptions = {},
+): Uint8Array {
+  if (width <= 0 || height <= 0) {
+    throw new GifLimitError('Width/Height invalid.', 'dimensions-out-of-range')
+  }
+
+  if (rgba.length < width * height * 4) {
+    throw new GifEncodeError('Not enough pixels for the frame size.', 'not-enough-pixels')
+  }
+
+  if (palette.length < 1 || palette.length > 256) {
+    throw new GifLimitError('Palette must have 1 .. 256 entries.', 'palette-size-out-of-range')
+  }
+
+  const transparent = options.transparent
+  if (transparent !== undefined && (transparent < 0 || transparent >= palette.length)) {
+    throw new GifLimitError('Transparent color index.', 'transparent-index-out-of-range')
+  }
+
+  const strength = options.strength ?? 1
+  if (!(strength >= 0 && strength <= 1)) {
+    throw new GifLimitError('Dither strength must be in 0 .. 1.', 'dither-strength-out-of-range')
+  }
+
+  const method = options.method ?? 'floyd-steinberg'
+  const match = createPaletteMatcher(palette, palette.length, transparent)
+  const alphaThreshold = options.alphaThreshold ?? 128
+  const isTransparent = transparent === undefined
+    ? () => false
+    : (o: number) => rgba[o + 3] < alphaThreshold
+
+  if (method === 'none' || strength === 0) {
+    return mapNearest(rgba, width, height, match, isTransparent, transparent ?? 0)
+  }
+
+  if (method === 'bayer') {
+    const size = options.bayerSize ?? 8
+    if (size !== 2 && size !== 4 && size !== 8) {
+      throw new GifLimitError('Bayer matrix size must be 2, 4 or 8.', 'bayer-size-out-of-range')
+    }
+    const usable = palette.length - (transparent === undefined ? 0 : 1)
+    return orderedDither(rgba, width, height, match, isTransparent, transparent ?? 0, size, strength, usable)
+  }
+
+  const kernel = KERNELS[method]
+  if (!kernel) {
+    throw new GifEncodeError(`Unknown dither method: ${String(method)}`, 'invalid-option')
+  }
+
+  return diffuseError(
+    rgba,
+    width,
+    height,
+    palette,
+    match,
+    isTransparent,
+    transparent ?? 0,
+    kernel,
+    strength,
+    options.serpentine ?? true,
+  )
+}
+
+// ───────────────────────────────────────────────────────────────────────────
+// Helpers
+// ───────────────────────────────────────────────────────────────────────────
+
+type Matcher = ReturnType<typeof createPaletteMatcher>
+
+function mapNearest(
+  rgba: Uint8Array,
+  width: number,
+  height: number,
+  match: Matcher,
+  isTransparent: (o: number) => boolean,
+  transparent: number,
+): Uint8Array {
+  const indices = new Uint8Array(width * height)
+  for (let i = 0; i < indices.length; i++) {
+    const o = i * 4
+    indices[i] = isTransparent(o) ? transparent : match(rgba[o], rgba[o + 1], rgba[o + 2])
+  }
+  return indices
+}
+
+function diffuseError(
+  rgba: Uint8Array,
+  width: number,
+  height: number,
+  palette: number[],
+  match: Matcher,
+  isTransparent: (o: number) => boolean,
+  transparent: number,
+  kernel: Kernel,
+  strength: number,
+  serpentine: boolean,
+): Uint8Array {
+  const indices = new Uint8Array(width * height)
+  // Accumulated error per pixel and channel. Only a few rows are live at a
+  // time, but a full-size buffer keeps the indexing trivial.
+  const err = new Float32Array(width * height * 3)
+  const scale = strength / kernel.divisor
+
+  for (let y = 0; y < height; y++) {
+    const reverse = serpentine && (y & 1) === 1
+    const dir = reverse ? -1 : 1
+
+    for (let n = 0; n < width; n++) {
+      const x = reverse ? width - 1 - n : n
+      const i = y * width + x
+      const o = i * 4
+
+      if (isTransparent(o)) {
+        indices[i] = transparent
+        continue
+      }
+
+      const r = clamp(rgba[o] + err[i * 3])
+      const g = clamp(rgba[o + 1] + err[i * 3 + 1])
+      const b = clamp(rgba[o + 2] + err[i * 3 + 2])
+
+      const index = match(r, g, b)
+      indices[i] = index
+
+      const rgb = palette[index]
+      const er = (r - (rgb >> 16 & 0xFF)) * scale
+      const eg = (g - (rgb >> 8 & 0xFF)) * scale
+      const eb = (b - (rgb & 0xFF)) * scale
+      if (er === 0 && eg === 0 && eb === 0) continue
+
+      for (const [dx, dy, weight] of kernel.taps) {
+        const nx = x + dx * dir
+        const ny = y + dy
+        if (nx < 0 || nx >= width || ny >= height) continue
+        const t = (ny * width + nx) * 3
+        err[t] += er * weight
+        err[t + 1] += eg * weight
+        err[t + 2] += eb * weight
+      }
+    }
+  }
+
+  return indices
+}
+
+function orderedDither(
+  rgba: Uint8Array,
+  width: number,
+  height: number,
+  match: Matcher,
+  isTransparent: (o: number) => boolean,
+  transparent: number,
+  size: number,
+  strength: number,
+  usable: number,
+): Uint8Array {
+  const matrix = bayerMatrix(size)
+  const cells = size * size
+
+  // Roughly the gap between neighbouring palette colours along one axis,
+  // assuming they're spread evenly through the RGB cube.
+  const spread = 255 / Math.max(1, Math.cbrt(usable) - 1) * strength
+
+  // Pre-scale the matrix to signed offsets centred on zero.
+  const offsets = new Float32Array(cells)
+  for (let i = 0; i < cells; i++) {
+    offsets[i] = ((matrix[i] + 0.5) / cells - 0.5) * spread
+  }
+
+  const indices = new Uint8Array(width * height)
+  for (let y = 0; y < height; y++) {
+    const row = (y % size) * size
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x
+      const o = i * 4
+
+      if (isTransparent(o)) {
+        indices[i] = transparent
+        continue
+      }
+
+      const t = offsets[row + (x % size)]
+      indices[i] = match(clamp(rgba[o] + t), clamp(rgba[o + 1] + t), clamp(rgba[o + 2] + t))
+    }
+  }
+
+  return indices
+}
+
+/** Recursive Bayer index matrix, row-major, values 0 .. size² - 1. */
+function bayerMatrix(size: number): Uint8Array {
+  let matrix = new Uint8Array([0])
+  let n = 1
+  while (n < size) {
+    const next = new Uint8Array(n * 2 * n * 2)
+    for (let y = 0; y < n; y++) {
+      for (let x = 0; x < n; x++) {
+        const v = matrix[y * n + x] * 4
+        next[y * 2 * n + x] = v
+        next[y * 2 * n + x + n] = v + 2
+        next[(y + n) * 2 * n + x] = v + 3
+        next[(y + n) * 2 * n + x + n] = v + 1
+      }
+    }
+    matrix = next
+    n *= 2
+  }
+  return matrix
+}
+
+function clamp(v: number): number {
+  return v <= 0 ? 0 : v >= 255 ? 255 : Math.round(v)
+}
@@ -0,0 +1,234 @@
+/**
+ * One-call animation encoder — full-canvas RGBA frames in, GIF bytes out.
+ *
+ * Everything `Writer` leaves to the caller is decided here:
+ *
+ *   1. **Palette layout** — if every frame's colours together fit into
+ *      `maxColors`, one exact global colour table is shared by all frames
+ *      (same idea as the consolidation pass in `optimize.ts`). Otherwise each
+ *      frame is quantized into its own local colour table.
+ *
+ *   2. **Disposal** — a frame is left in place (1) unless the frame after it
+ *      has see-through pixels, in which case it is restored to background
+ *      (2) so the old pixels don't show through.
+ *
+ *   3. **Output size** — the writer grows its own buffer, and the result
+ *      is exactly the bytes written.
+ */
+
+import type { DitherMethod } from './dither'
+import type { QuantizeMethod } from './quantize'
+import type { GifApplicationExtension, GifComment } from './types'
+import { dither } from './dither'
+import { GifEncodeError, GifLimitError } from './errors'
+import { quantize } from './quantize'
+import { Writer } from './writer'
+
+export interface AnimationFrame {
+  /** Full-canvas pixels, `width * height * 4` bytes of RGBA. */
+  rgba: Uint8Array
+  /**
+   * How long the frame stays on screen, in milliseconds. GIF stores delays
+   * in hundredths of a second, so this is rounded to the nearest 10 ms.
+   * Default `0`.
+   */
+  delay?: number
+}
+
+export interface EncodeAnimationOptions {
+  width: number
+  height: number
+  frames: AnimationFrame[]
+  /**
+   * Number of extra loops, `0` for forever, `null` to play once. Default
+   * `0` for animations; single-frame images never get a loop block.
+   */
+  loop?: number | null
+  /** Palette budget per colour table, 2 .. 256. Default `256`. */
+  maxColors?: number
+  /**
+   * Force a single global colour table (`'global'`) or one local table per
+   * frame (`'local'`). `'auto'` uses a global table only when the frames'
+   * colours fit it exactly. Default `'auto'`.
+   */
+  palette?: 'auto' | 'global' | 'local'
+  /** Quantizer used when colours have to be reduced. Default `'median-cut'`. */
+  quantize?: QuantizeMethod
+  /**
+   * Dithering applied when colours have to be reduced. Prefer `'bayer'` for
+   * animations, error diffusion makes static areas flicker. Default `'none'`.
+   */
+  dither?: DitherMethod
+  /** Dither strength, 0 .. 1. Default `1`. */
+  ditherStrength?: number
+  /** Pixels with an alpha below this are transparent. Default `128`. */
+  alphaThreshold?: number
+  /** Pixel width / height stored in the header, `null` for square. Default `null`. */
+  pixelAspectRatio?: number | null
+  /** Comments to write, each in front of the frame its `frameIndex` names. */
+  comments?: GifComment[]
+  /** Application extensions (XMP and the like), placed the same way. */
+  applications?: GifApplicationExtension[]
+}
+
+/**
+ * Encode full-canvas RGBA frames into a complete GIF. Returns exactly the
+ * written bytes.
+ */
+export function encodeAnimation(options: EncodeAnimationOptions): Uint8Array {
+  const { width, height, frames } = options
+
+  if (width <= 0 || height <= 0 || width > 65535 || height > 65535) {
+    throw new GifLimitError('Width/Height invalid.', 'dimensions-out-of-range')
+  }
+
+  if (frames.length === 0) {
+    throw new GifEncodeError('At least one frame is required.', 'no-frames')
+  }
+
+  const numPixels = width * height
+  for (let i = 0; i < frames.length; i++) {
+    if (frames[i].rgba.length < numPixels * 4) {
+      throw new GifEncodeError(`Frame ${i}: not enough pixels for the frame size.`, 'not-enough-pixels', { frameIndex: i })
+    }
+  }
+
+  const maxColors = options.maxColors ?? 256
+  const alphaThreshold = options.alphaThreshold ?? 128
+  const layout = options.palette ?? 'auto'
+
+  // ── Phase 1: survey colours ────────────────────────────────────────────
+  const colorSet = new Set<number>()
+  const hasTransparent: boolean[] = []
+  for (const frame of frames) {
+    let transparent = false
+    for (let p = 0; p < numPixels; p++) {
+      const o = p * 4
+      if (frame.rgba[o + 3] < alphaThreshold) {
+        transparent = true
+        continue
+      }
+      if (colorSet.size <= 256) {
+        colorSet.add((frame.rgba[o] << 16) | (frame.rgba[o + 1] << 8) | frame.rgba[o + 2])
+      }
+    }
+    hasTransparent.push(transparent)
+  }
+
+  const anyTransparent = hasTransparent.includes(true)
+  const exactGlobal = colorSet.size + (anyTransparent ? 1 : 0) <= maxColors
+
+  // ── Phase 2: palettes + index streams ──────────────────────────────────
+  const encoded: Array<{ indices: Uint8Array, palette?: number[], transparent?: number }> = []
+  const quantizeOptions = { method: options.quantize, maxColors, alphaThreshold }
+  let globalPalette: number[] | undefined
+
+  if (layout === 'global' || (layout === 'auto' && exactGlobal)) {
+    // Quantizing every frame stacked into one tall image gives a palette
+    // that serves the whole animation (exact when the colours fit).
+    const stacked = new Uint8Array(numPixels * 4 * frames.length)
+    frames.forEach((frame, i) => stacked.set(frame.rgba.subarray(0, numPixels * 4), i * numPixels * 4))
+
+    const q = quantize(stacked, width, height * frames.length, quantizeOptions)
+    globalPalette = q.palette
+
+    frames.forEach((frame, i) => {
+      encoded.push({
+        indices: exactGlobal
+          ? q.indices.subarray(i * numPixels, (i + 1) * numPixels)
+          : mapReduced(frame.rgba, width, height, q.indices.subarray(i * numPixels, (i + 1) * numPixels), q.palette, q.transparent, options),
+        transparent: q.transparent,
+      })
+    })
+  }
+  else {
+    frames.forEach((frame, i) => {
+      const q = quantize(frame.rgba, width, height, quantizeOptions)
+      const exact = countColors(frame.rgba, numPixels, alphaThreshold) + (hasTransparent[i] ? 1 : 0) <= maxColors
+      encoded.push({
+        indices: exact
+          ? q.indices
+          : mapReduced(frame.rgba, width, height, q.indices, q.palette, q.transparent, options),
+        palette: q.palette,
+        transparent: q.transparent,
+      })
+    })
+  }
+
+  // ── Phase 3: write ─────────────────────────────────────────────────────
+  const writer = new Writer(null, width, height, {
+    palette: globalPalette,
+    loop: frames.length > 1 ? (options.loop === undefined ? 0 : options.loop) : null,
+    pixelAspectRatio: options.pixelAspectRatio ?? null,
+  })
+
+  const writeExtensions = (frameIndex: number): void => {
+    for (const app of options.applications ?? []) {
+      if (app.frameIndex === frameIndex) writer.addApplicationExtension(app.identifier, app.authCode, app.data)
+    }
+    for (const comment of options.comments ?? []) {
+      if (comment.frameIndex === frameIndex) writer.addComment(comment.data)
+    }
+  }
+
+  for (let i = 0; i < frames.length; i++) {
+    writeExtensions(i)
+    // Looping wraps from the last frame back to the first.
+    const next = i + 1 < frames.length ? i + 1 : 0
+    const disposal = frames.length === 1 ? 0 : hasTransparent[next] ? 2 : 1
+
+    writer.addFrame(0, 0, width, height, encoded[i].indices, {
+      palette: encoded[i].palette,
+      delay: toCentiseconds(frames[i].delay ?? 0),
+      disposal,
+      transparent: encoded[i].transparent,
+    })
+  }
+  writeExtensions(frames.length)
+
+  writer.end()
+  return writer.toUint8Array()
+}
+
+// ───────────────────────────────────────────────────────────────────────────
+// Helpers
+// ───────────────────────────────────────────────────────────────────────────
+
+/**
+ * Index stream for a frame whose colours had to be reduced: the quantizer's
+ * nearest-colour mapping, or a dithered one when asked for.
+ */
+function mapReduced(
+  rgba: Uint8Array,
+  width: number,
+  height: number,
+  nearest: Uint8Array,
+  palette: number[],
+  transparent: number | undefined,
+  options: EncodeAnimationOptions,
+): Uint8Array {
+  if (options.dither === undefined || options.dither === 'none') return nearest
+
+  return dither(rgba, width, height, palette, {
+    method: options.dither,
+    strength: options.ditherStrength,
+    transparent,
+    alphaThreshold: options.alphaThreshold,
+  })
+}
+
+/** Number of distinct opaque colours, counting stops early past 256. */
+function countColors(rgba: Uint8Array, numPixels: number, alphaThreshold: number): number {
+  const seen = new Set<number>()
+  for (let p = 0; p < numPixels && seen.size <= 256; p++) {
+    const o = p * 4
+    if (rgba[o + 3] < alphaThreshold) continue
+    seen.add((rgba[o] << 16) | (rgba[o + 1] << 8) | rgba[o + 2])
+  }
+  return seen.size
+}
+
+function toCentiseconds(ms: number): number {
+  const cs = Math.round(ms / 10)
+  return cs < 0 ? 0 : cs > 65535 ? 65535 : cs
+}
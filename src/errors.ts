@@ -0,0 +1,99 @@
+/**
+ * Error classes — everything `Reader`, `GifParser`, `Writer`, the LZW
+ * coders and the functions built on them throw is a `GifError`, so callers
+ * can branch on `code` instead of matching message strings:
+ *
+ *   GifFormatError         — the input isn't a well-formed GIF.
+ *   GifEncodeError         — the writer, or a function feeding it, was handed
+ *                            something it can't encode.
+ *   GifBufferOverflowError — a fixed-size output buffer is too small.
+ *   GifLimitError          — a number is outside what the format, or the
+ *                            file at hand, allows.
+ *
+ * The messages are unchanged from when these were plain `Error`s.
+ */
+
+export type GifErrorCode =
+  // GifFormatError
+  | 'invalid-header'
+  | 'truncated'
+  | 'unknown-block'
+  | 'unknown-extension'
+  | 'invalid-graphics-control'
+  | 'invalid-plain-text'
+  | 'missing-palette'
+  // GifEncodeError
+  | 'invalid-palette'
+  | 'not-enough-pixels'
+  | 'zero-background-index'
+  | 'unsupported-in-87a'
+  | 'invalid-text'
+  | 'invalid-application-id'
+  | 'invalid-xmp'
+  | 'writer-ended'
+  | 'invalid-option'
+  | 'no-frames'
+  // GifBufferOverflowError
+  | 'buffer-overflow'
+  // GifLimitError
+  | 'dimensions-out-of-range'
+  | 'position-out-of-range'
+  | 'palette-size-out-of-range'
+  | 'loop-count-out-of-range'
+  | 'aspect-ratio-out-of-range'
+  | 'background-index-out-of-range'
+  | 'disposal-out-of-range'
+  | 'lossy-out-of-range'
+  | 'transparent-index-out-of-range'
+  | 'color-index-out-of-range'
+  | 'cell-size-out-of-range'
+  | 'frame-index-out-of-range'
+  | 'plain-text-index-out-of-range'
+  | 'dither-strength-out-of-range'
+  | 'bayer-size-out-of-range'
+  | 'rotation-out-of-range'
+  | 'delay-factor-out-of-range'
+  | 'frame-rate-out-of-range'
+  | 'trim-range-out-of-range'
+  | 'column-count-out-of-range'
+  | 'padding-out-of-range'
+  | 'playing-time-mismatch'
+  // GifError itself
+  | 'parser-ended'
+
+export interface GifErrorDetails {
+  /** Byte offset the error is about: in the input when reading, the output when writing. */
+  offset?: number | null
+  /** Frame the error is about. */
+  frameIndex?: number | null
+}
+
+export class GifError extends Error {
+  override name: string = 'GifError'
+  readonly code: GifErrorCode
+  readonly offset: number | null
+  readonly frameIndex: number | null
+
+  constructor(message: string, code: GifErrorCode, details: GifErrorDetails = {}) {
+    super(message)
+    this.code = code
+    this.offset = details.offset ?? null
+    this.frameIndex = details.frameIndex ?? null
+  }
+}
+
+export class GifFormatError extends GifError {
+  override name: string = 'GifFormatError'
+}
+
+export class GifEncodeError extends GifError {
+  override name: string = 'GifEncodeError'
+}
+
+export class GifBufferOverflowError extends GifError {
+  override name: string = 'GifBufferOverflowError'
+}
+
+export class GifLimitError extends GifError {
+  override name: string = 'GifLimitError'
+}
@@ -1,22 +1,89 @@
 import { Reader, readerLZWOutputIndexStream } from './reader'
-import { Writer, writerOutputLZWCodeStream } from './writer'
-import { optimize, reencode } from './optimize'
+import { Writer, writerOutputLossyLZWCodeStream, writerOutputLZWCodeStream } from './writer'
+import { compareFrames, optimize, optimizeWithReport, reencode } from './optimize'
+import { createPaletteMatcher, padPalette, quantize } from './quantize'
+import { dither } from './dither'
+import { encodeAnimation } from './encode'
+import { resize } from './resize'
+import { crop, flip, rotate } from './transform'
+import { boomerang, reverse, scaleDelays, setFrameRate, trim } from './timeline'
+import { concat } from './concat'
+import { fromSpriteSheet, toSpriteSheet } from './spritesheet'
+import { StreamWriter } from './stream'
+import { GifParser } from './parser'
+import { Compositor } from './compositor'
+import { validate } from './validate'
+import { GifBufferOverflowError, GifEncodeError, GifError, GifFormatError, GifLimitError } from './errors'
 
 interface Gif {
   Reader: typeof Reader
+  GifParser: typeof GifParser
+  Compositor: typeof Compositor
   Writer: typeof Writer
+  StreamWriter: typeof StreamWriter
   optimize: typeof optimize
   reencode: typeof reencode
+  quantize: typeof quantize
+  dither: typeof dither
+  encodeAnimation: typeof encodeAnimation
+  resize: typeof resize
+  crop: typeof crop
+  rotate: typeof rotate
+  flip: typeof flip
+  scaleDelays: typeof scaleDelays
+  setFrameRate: typeof setFrameRate
+  reverse: typeof reverse
+  boomerang: typeof boomerang
+  trim: typeof trim
+  concat: typeof concat
+  toSpriteSheet: typeof toSpriteSheet
+  fromSpriteSheet: typeof fromSpriteSheet
+  validate: typeof validate
 }
 
 const gif: Gif = {
   Reader,
+  GifParser,
+  Compositor,
   Writer,
+  StreamWriter,
   optimize,
   reencode,
+  quantize,
+  dither,
+  encodeAnimation,
+  resize,
+  crop,
+  rotate,
+  flip,
+  scaleDelays,
+  setFrameRate,
+  reverse,
+  boomerang,
+  trim,
+  concat,
+  toSpriteSheet,
+  fromSpriteSheet,
+  validate,
 }
 
-export { Reader, readerLZWOutputIndexStream, Writer, writerOutputLZWCodeStream, optimize, reencode }
-export type { OptimizeOptions } from './optimize'
+export { Reader, readerLZWOutputIndexStream, GifParser, Compositor, Writer, writerOutputLZWCodeStream, writerOutputLossyLZWCodeStream, StreamWriter, optimize, optimizeWithReport, compareFrames, reencode }
+export { quantize, padPalette, createPaletteMatcher, dither, encodeAnimation, resize, crop, rotate, flip, scaleDelays, setFrameRate, reverse, boomerang, trim, concat, toSpriteSheet, fromSpriteSheet, validate }
+export { GifError, GifFormatError, GifEncodeError, GifBufferOverflowError, GifLimitError }
+export type { Frame, FrameIteratorOptions, FrameOptions, GifApplicationExtension, GifComment, GifVersion, PlainText, PlainTextOptions, ReaderOptions, RenderedFrame, WriterOptions } from './types'
+export type { OptimizeOptions, OptimizeReport, PixelDifference } from './optimize'
+export type { QuantizeMethod, QuantizeOptions, QuantizeResult } from './quantize'
+export type { DitherMethod, DitherOptions } from './dither'
+export type { AnimationFrame, EncodeAnimationOptions } from './encode'
+export type { ResizeFilter, ResizeOptions } from './resize'
+export type { CropOptions, FlipDirection, RotateAngle } from './transform'
+export type { TrimOptions } from './timeline'
+export type { ConcatFit, ConcatOptions } from './concat'
+export type { FromSpriteSheetOptions, SpriteSheet, SpriteSheetFormat, SpriteSheetFrame, SpriteSheetLayout, SpriteSheetOptions, SpriteSheetRect } from './spritesheet'
+export type { GifOutputStream } from './stream'
+export type { GifExtensionInfo, GifHeaderInfo, GifParserHandlers } from './parser'
+export type { CompositorOptions, FrameSource } from './compositor'
+export type { GifErrorCode, GifErrorDetails } from './errors'
+export type { GifDiagnostic, GifDiagnosticCode, GifDiagnosticSeverity } from './validate'
 
 export default gif
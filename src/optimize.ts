@@ -1,7 +1,7 @@
 /**
  * GIF optimizer — pure-TypeScript, no deps.
  *
- * Two passes, run independently and the smaller output wins:
+ * Three passes, run independently and the smallest output wins:
  *
  *   1. **Palette tightening (per-frame)** — drop palette entries that no
  *      pixel actually references, repack to the smallest power-of-two
@@ -12,14 +12,33 @@
  *      ≤ 256 unique colors, emit a single global colour table and skip the
  *      per-frame local color tables. This is what gifsicle's `-O3` does.
  *
- * Both passes operate on the **original index streams** (decoded losslessly
+ *   3. **Inter-frame deltas** — composite every frame, then store each one
+ *      as just the rectangle that changed since the previous one, with the
+ *      unchanged pixels inside it made transparent (long runs of one index
+ *      compress very well). Disposal methods are chosen so playback stays
+ *      pixel-identical. This is what pays off for screen recordings.
+ *
+ * Every pass also drops frames that look exactly like the frame before
+ * them and adds their delay to it, as long as the sum fits the 16-bit
+ * delay field. Loop count and total playing time stay the same.
+ *
+ * The first two passes operate on the **original index streams** (decoded losslessly
  * via the existing LZW reader). No re-quantization, so output is bit-exact
- * pixel-for-pixel with the input.
+ * pixel-for-pixel with the input; the delta pass matches it once composited.
+ * Comment, application and plain text extensions are carried over at their
+ * original positions, plain text with its colours found in the new global
+ * palette.
+ *
+ * The one exception is `lossy`: every pass then encode with the lossy LZW
+ * variant, which trades exact pixels for longer runs. `optimizeWithReport()`
+ * measures how far the result strays from the input.
  */
 
-import type { Buffer as NodeBuffer } from 'node:buffer'
+import type { Frame, GifApplicationExtension, GifComment, PlainText } from './types'
 import { Buffer } from 'node:buffer'
-import { Reader, readerLZWOutputIndexStream } from './reader'
+import { GifFormatError, GifLimitError } from './errors'
+import { padPalette } from './quantize'
+import { decodeFrameIndices, Reader } from './reader'
 import { Writer } from './writer'
 
 export interface OptimizeOptions {
@@ -29,6 +48,66 @@ export interface OptimizeOptions {
    * output deterministically. Default `false`.
    */
   force?: boolean
+  /**
+   * Lossy LZW compression, 0 .. 200 on gifsicle's `--lossy` scale: the
+   * encoder may replace a pixel with a similar palette colour when that
+   * extends a run. Around 30–80 is usually hard to spot. Default `0`
+   * (lossless).
+   */
+  lossy?: number
+}
+
+export interface PixelDifference {
+  /** Composited pixels, over all frames, that differ at all. */
+  changedPixels: number
+  /** Composited pixels compared. */
+  totalPixels: number
+  /** Largest RGBA distance of a single pixel, 0 .. 510. */
+  maxError: number
+  /** RGBA distance averaged over every pixel compared. */
+  meanError: number
+}
+
+export interface OptimizeReport {
+  /** What `optimize()` returns for the same arguments. */
+  data: Uint8Array
+  inputSize: number
+  outputSize: number
+  /** How much `data` differs from the input when both are played back. */
+  difference: PixelDifference
+}
+
+/** A frame's original index stream and palette. Shared with `concat()`. */
+export interface DecodedFrame {
+  info: Frame
+  indices: Uint8Array
+  /** Palette as RGB triples, in order. Length is one of 2,4,…,256. */
+  palette: number[]
+  /** Colors actually referenced by `indices` (plus the transparent index, if any). */
+  usedSet: Set<number>
+}
+
+/** Everything besides the frames that a re-encode has to carry over. */
+export interface StreamInfo {
+  width: number
+  height: number
+  loopCount: number | null
+  pixelAspectRatio: number | null
+  comments: GifComment[]
+  applications: GifApplicationExtension[]
+  plainTexts: CarriedPlainText[]
+}
+
+/**
+ * A Plain Text Extension with its colours looked up in the source's global
+ * palette, so it can be written against another one.
+ */
+export interface CarriedPlainText {
+  text: PlainText
+  /** RGB of `text.foreground_index`, black when the source had no global palette. */
+  foreground: number
+  /** RGB of `text.background_index`, likewise. */
+  background: number
 }
 
 /**
@@ -39,7 +118,7 @@ export interface OptimizeOptions {
  */
 export function optimize(input: Uint8Array, options: OptimizeOptions = {}): Uint8Array {
   try {
-    const re = reencode(input)
+    const re = reencode(input, options)
     if (options.force) return re
     return re.length < input.length ? re : input
   }
@@ -48,12 +127,80 @@ export function optimize(input: Uint8Array, options: OptimizeOptions = {}): Uint
   }
 }
 
+/**
+ * `optimize()`, plus sizes and how much the pixels changed. Lossless output
+ * is identical by construction, so the frames are only compared when
+ * `lossy` is on.
+ */
+export function optimizeWithReport(input: Uint8Array, options: OptimizeOptions = {}): OptimizeReport {
+  const data = optimize(input, options)
+  const lossless = data === input || !options.lossy
+
+  return {
+    data,
+    inputSize: input.length,
+    outputSize: data.length,
+    difference: lossless ? identical(input) : compareFrames(input, data),
+  }
+}
+
+/**
+ * Play two GIFs back side by side and measure how much their composited
+ * frames differ. Both must have the same canvas size. With different frame
+ * counts (say, after duplicates were merged) every frame of `a` is compared
+ * with whatever `b` shows at the same time, which needs the same total
+ * playing time.
+ */
+export function compareFrames(a: Uint8Array, b: Uint8Array): PixelDifference {
+  const readerA = new Reader(Buffer.from(a))
+  const readerB = new Reader(Buffer.from(b))
+  const width = readerA.getWidth()
+  const height = readerA.getHeight()
+  const numFrames = readerA.numFrames()
+
+  if (readerB.getWidth() !== width || readerB.getHeight() !== height) {
+    throw new GifLimitError('GIFs have different canvas sizes.', 'dimensions-out-of-range')
+  }
+  const matching = matchFrames(readerA, readerB)
+
+  const pixelsA = new Uint8Array(width * height * 4)
+  const pixelsB = new Uint8Array(width * height * 4)
+  let changedPixels = 0
+  let maxError = 0
+  let totalError = 0
+
+  for (let i = 0; i < numFrames; i++) {
+    readerA.renderFrame(i, pixelsA)
+    readerB.renderFrame(matching[i], pixelsB)
+    for (let o = 0; o < pixelsA.length; o += 4) {
+      const dr = pixelsA[o] - pixelsB[o]
+      const dg = pixelsA[o + 1] - pixelsB[o + 1]
+      const db = pixelsA[o + 2] - pixelsB[o + 2]
+      const da = pixelsA[o + 3] - pixelsB[o + 3]
+      const d2 = dr * dr + dg * dg + db * db + da * da
+      if (d2 === 0) continue
+      const d = Math.sqrt(d2)
+      changedPixels++
+      totalError += d
+      if (d > maxError) maxError = d
+    }
+  }
+
+  const totalPixels = width * height * numFrames
+  return {
+    changedPixels,
+    totalPixels,
+    maxError,
+    meanError: totalPixels > 0 ? totalError / totalPixels : 0,
+  }
+}
+
 /**
  * Force re-encoding with palette tightening + (when possible) global palette
  * consolidation. Always returns a freshly built buffer — the caller is
  * responsible for picking the smaller of input/output via `optimize()`.
  */
-export function reencode(input: Uint8Array): Uint8Array {
+export function reencode(input: Uint8Array, options: OptimizeOptions = {}): Uint8Array {
   const buf = Buffer.from(input)
   const reader = new Reader(buf)
   const width = reader.getWidth()
@@ -64,30 +211,18 @@ export function reencode(input: Uint8Array): Uint8Array {
 
   // ── Phase 1 ────────────────────────────────────────────────────────────
   // Decode each frame's raw index stream + extract its source palette.
-  type DecodedFrame = {
-    info: ReturnType<Reader['frameInfo']>
-    indices: Uint8Array
-    /** Palette as RGB triples, in order. Length is one of 2,4,…,256. */
-    palette: number[]
-    /** Colors actually referenced by `indices` (plus the transparent index, if any). */
-    usedSet: Set<number>
-  }
-
   const frames: DecodedFrame[] = []
   for (let i = 0; i < numFrames; i++) {
     const info = reader.frameInfo(i)
-    const numPixels = info.width * info.height
-    const indices = new Uint8Array(numPixels)
-
-    readerLZWOutputIndexStream(buf, info.data_offset, indices, numPixels)
+    // Rows top to bottom; the writer re-interlaces on the way out.
+    const indices = decodeFrameIndices(buf, info)
 
-    if (info.palette_offset === null) {
+    const palette = reader.getFramePalette(i)
+    if (palette === null) {
       // Palette-less frame is malformed for our purposes; passthrough.
-      throw new Error('frame has no palette')
+      throw new GifFormatError('No palette found for frame', 'missing-palette', { frameIndex: i })
     }
 
-    const palette = readPalette(buf, info.palette_offset, info.palette_size ?? 0)
-
     const usedSet = new Set<number>()
     for (let p = 0; p < indices.length; p++) usedSet.add(indices[p])
     if (info.transparent_index !== null) usedSet.add(info.transparent_index)
@@ -95,73 +230,210 @@ export function reencode(input: Uint8Array): Uint8Array {
     frames.push({ info, indices, palette, usedSet })
   }
 
-  const loopCount = reader.getLoopCount()
+  const stream: StreamInfo = {
+    width,
+    height,
+    loopCount: reader.getLoopCount(),
+    pixelAspectRatio: reader.getPixelAspectRatio(),
+    comments: reader.getComments(),
+    applications: reader.getApplicationExtensions(),
+    plainTexts: carryPlainTexts(reader),
+  }
+
+  const lossy = options.lossy ?? 0
+
+  // Frames that look exactly like the one before. The passes that keep the
+  // original frames can only drop one when neither it nor the frame it
+  // merges into changes the canvas on disposal; the delta pass picks its
+  // own disposals, so it can drop them all.
+  const duplicate = findDuplicates(reader)
+  const keepsCanvas = (disposal: number) => disposal === 0 || disposal === 1
+  const delays = foldDuplicates(frames, duplicate, (i, survivor) =>
+    keepsCanvas(frames[i].info.disposal) && keepsCanvas(frames[survivor].info.disposal))
 
   // ── Phase 2: try global-palette consolidation ──────────────────────────
   // If every frame's used colours together fit into 256, we can replace
   // every local colour table with one shared global one — saving up to
   // (numFrames - 1) × ≈768 bytes.
-  const globalAttempt = tryGlobalPalette(frames)
+  const globalAttempt = tryGlobalPalette(frames, stream, delays, lossy)
 
   // ── Phase 3: per-frame tightening fallback ─────────────────────────────
-  const localAttempt = tightenLocalPalettes(width, height, frames, loopCount)
+  const localAttempt = tightenLocalPalettes(frames, stream, delays, lossy)
 
-  // Pick whichever attempt is smaller. (Both are valid GIF89a outputs.)
-  if (globalAttempt && globalAttempt.length <= localAttempt.length) {
-    return globalAttempt
-  }
-  return localAttempt
+  // ── Phase 4: inter-frame deltas ────────────────────────────────────────
+  const deltaDelays = foldDuplicates(frames, duplicate, () => true)
+  const deltaAttempt = encodeDeltas(reader, frames, stream, deltaDelays, lossy)
+
+  // Pick whichever attempt is smallest. (All are valid GIF89a outputs.)
+  let best = localAttempt
+  if (globalAttempt && globalAttempt.length <= best.length) best = globalAttempt
+  if (deltaAttempt && deltaAttempt.length < best.length) best = deltaAttempt
+  return best
 }
 
 // ───────────────────────────────────────────────────────────────────────────
 // Helpers
 // ───────────────────────────────────────────────────────────────────────────
 
-function readPalette(buf: NodeBuffer, offset: number, size: number): number[] {
-  const palette: number[] = []
-  for (let i = 0; i < size; i++) {
-    const r = buf[offset + i * 3]
-    const g = buf[offset + i * 3 + 1]
-    const b = buf[offset + i * 3 + 2]
-    palette.push((r << 16) | (g << 8) | b)
+/** For every frame of `a`, the frame `b` is showing when it starts. */
+function matchFrames(a: Reader, b: Reader): number[] {
+  const countA = a.numFrames()
+  const countB = b.numFrames()
+  if (countA === countB) return Array.from({ length: countA }, (_, i) => i)
+
+  const startsA = frameStarts(a)
+  const startsB = frameStarts(b)
+  if (startsA[countA] !== startsB[countB]) {
+    throw new GifLimitError('GIFs have different frame counts and playing times.', 'playing-time-mismatch')
   }
-  return palette
+
+  const matching: number[] = []
+  let j = 0
+  for (let i = 0; i < countA; i++) {
+    while (j + 1 < countB && startsB[j + 1] <= startsA[i]) j++
+    matching.push(j)
+  }
+  return matching
+}
+
+/** Start time of every frame, plus the total playing time at the end. */
+function frameStarts(reader: Reader): number[] {
+  const starts = [0]
+  for (let i = 0; i < reader.numFrames(); i++) starts.push(starts[i] + reader.frameInfo(i).delay)
+  return starts
+}
+
+/** For every frame, whether its composited output equals the previous frame's. */
+function findDuplicates(reader: Reader): boolean[] {
+  const duplicate: boolean[] = []
+  let previous: Uint8Array | null = null
+  for (let i = 0; i < reader.numFrames(); i++) {
+    const canvas = reader.renderFrame(i)
+    duplicate.push(previous !== null && sameCanvas(previous, canvas))
+    previous = canvas
+  }
+  return duplicate
+}
+
+/**
+ * The delay each frame is written with once duplicates are merged into the
+ * frame before them, or null for frames that get dropped. A duplicate is
+ * kept when the merged delay would overflow the 16-bit field, so the total
+ * playing time never changes.
+ */
+function foldDuplicates(
+  frames: DecodedFrame[],
+  duplicate: boolean[],
+  canDrop: (index: number, survivor: number) => boolean,
+): Array<number | null> {
+  const delays: Array<number | null> = frames.map(f => f.info.delay)
+  let survivor = 0
+  for (let i = 1; i < frames.length; i++) {
+    const merged = delays[survivor]! + frames[i].info.delay
+    if (duplicate[i] && merged <= 65535 && canDrop(i, survivor)) {
+      delays[survivor] = merged
+      delays[i] = null
+    }
+    else {
+      survivor = i
+    }
+  }
+  return delays
+}
+
+/** No difference, sized like `compareFrames()` would report it. */
+function identical(input: Uint8Array): PixelDifference {
+  let totalPixels = 0
+  try {
+    const reader = new Reader(Buffer.from(input))
+    totalPixels = reader.getWidth() * reader.getHeight() * reader.numFrames()
+  }
+  catch {}
+  return { changedPixels: 0, totalPixels, maxError: 0, meanError: 0 }
+}
+
+/** The reader's Plain Text Extensions, colours looked up. */
+export function carryPlainTexts(reader: Reader): CarriedPlainText[] {
+  const palette = reader.getGlobalPalette()
+  return reader.getPlainTexts().map(text => ({
+    text,
+    foreground: palette?.[text.foreground_index] ?? 0,
+    background: palette?.[text.background_index] ?? 0,
+  }))
+}
+
+/** Every colour plain text is drawn in. Each needs a slot in the global palette. */
+function textColors(stream: StreamInfo): number[] {
+  return stream.plainTexts.flatMap(t => [t.foreground, t.background])
+}
+
+/**
+ * Global palette for output whose frames all bring their own: none, or
+ * just the plain text colours when there is text to write.
+ */
+function textPalette(stream: StreamInfo): number[] | undefined {
+  if (stream.plainTexts.length === 0) return undefined
+  return padPalette(Array.from(new Set(textColors(stream))).sort((a, b) => a - b))
 }
 
-/** Round palette length up to a power of two ≥ 2 by padding with black. */
-function padPalette(palette: number[]): number[] {
-  let psize = 2
-  while (psize < palette.length) psize <<= 1
-  const padded = palette.slice()
-  while (padded.length < psize) padded.push(0)
-  return padded
+function createWriter(stream: StreamInfo, palette?: number[]): Writer {
+  return new Writer(null, stream.width, stream.height, {
+    palette,
+    // Exactly as the source had it: a file without a loop block plays once.
+    loop: stream.loopCount,
+    pixelAspectRatio: stream.pixelAspectRatio,
+  })
+}
+
+/**
+ * Re-emit the comments, application extensions and plain text that sat
+ * right before frame `frameIndex`. `palette` is the writer's global palette,
+ * which has to hold every plain text colour.
+ */
+function writeExtensions(writer: Writer, stream: StreamInfo, frameIndex: number, palette?: number[]): void {
+  for (const app of stream.applications) {
+    if (app.frameIndex === frameIndex) writer.addApplicationExtension(app.identifier, app.authCode, app.data)
+  }
+  for (const comment of stream.comments) {
+    if (comment.frameIndex === frameIndex) writer.addComment(comment.data)
+  }
+  for (const { text, foreground, background } of stream.plainTexts) {
+    if (text.frame_index !== frameIndex) continue
+    const fg = palette!.indexOf(foreground)
+    const bg = palette!.indexOf(background)
+    writer.addPlainText(text.x, text.y, text.width, text.height, text.text, {
+      cellWidth: text.cell_width,
+      cellHeight: text.cell_height,
+      foreground: fg,
+      background: bg,
+      delay: text.delay,
+      disposal: text.disposal,
+      // Only the two colours the text is drawn in can be see-through.
+      transparent: text.transparent_index === text.foreground_index
+        ? fg
+        : text.transparent_index === text.background_index ? bg : undefined,
+    })
+  }
 }
 
 /**
  * Per-frame tightening: drop unused palette entries, remap indices, repack
  * to the smallest power-of-two palette size. Always succeeds.
  */
-function tightenLocalPalettes(
-  width: number,
-  height: number,
-  frames: Array<{
-    info: ReturnType<Reader['frameInfo']>
-    indices: Uint8Array
-    palette: number[]
-    usedSet: Set<number>
-  }>,
-  loopCount: number | null,
+export function tightenLocalPalettes(
+  frames: DecodedFrame[],
+  stream: StreamInfo,
+  delays: Array<number | null>,
+  lossy: number,
 ): Uint8Array {
-  // Worst-case output budget: original-ish per frame plus headroom for
-  // headers + LZW overhead. We slice to the actual position at the end.
-  const budget = computeOutputBudget(width, height, frames)
-  const out = Buffer.alloc(budget)
+  const palette = textPalette(stream)
+  const writer = createWriter(stream, palette)
 
-  const writer = new Writer(out, width, height, {
-    loop: frames.length > 1 ? (loopCount ?? 0) : null,
-  })
+  for (let i = 0; i < frames.length; i++) {
+    const f = frames[i]
+    writeExtensions(writer, stream, i, palette)
+    if (delays[i] === null) continue
 
-  for (const f of frames) {
     const used = Array.from(f.usedSet).sort((a, b) => a - b)
     const remap = new Uint8Array(256)
     for (let n = 0; n < used.length; n++) remap[used[n]] = n
@@ -183,15 +455,18 @@ function tightenLocalPalettes(
       newIndices,
       {
         palette: newPalette,
-        delay: f.info.delay,
+        delay: delays[i]!,
         disposal: f.info.disposal,
         transparent: newTransparent,
+        interlaced: f.info.interlaced,
+        lossy,
       },
     )
   }
 
+  writeExtensions(writer, stream, frames.length, palette)
   writer.end()
-  return Uint8Array.from(out.slice(0, writer.getOutputBufferPosition()))
+  return writer.toUint8Array()
 }
 
 /**
@@ -199,13 +474,11 @@ function tightenLocalPalettes(
  * if the union of every frame's used colours exceeds 256 (in which case
  * the local-palette path will produce smaller output anyway).
  */
-function tryGlobalPalette(
-  frames: Array<{
-    info: ReturnType<Reader['frameInfo']>
-    indices: Uint8Array
-    palette: number[]
-    usedSet: Set<number>
-  }>,
+export function tryGlobalPalette(
+  frames: DecodedFrame[],
+  stream: StreamInfo,
+  delays: Array<number | null>,
+  lossy: number,
 ): Uint8Array | null {
   // Collect every (rgb, isTransparent) combination across all frames.
   // We treat transparency as a logical channel — a frame that wants to be
@@ -221,6 +494,7 @@ function tryGlobalPalette(
       colorSet.add(f.palette[idx] ?? 0)
     }
   }
+  for (const color of textColors(stream)) colorSet.add(color)
 
   // Reserve one extra slot for transparency (when any frame uses it).
   const anyTransparent = frames.some(f => f.info.transparent_index !== null)
@@ -243,30 +517,13 @@ function tryGlobalPalette(
     colorToGlobal.set(globalPalette[i], i)
   }
 
-  const totalWidth = frames[0]
-  const _w = totalWidth // (unused — the global LSD width is taken from the writer ctor below)
-  void _w
-
-  // Determine canvas size from the original (we still need it for the writer).
-  // We thread it in via `frames[0].info` is wrong (it's the frame, not canvas).
-  // The caller of tryGlobalPalette knows the canvas — but to keep the surface
-  // small we recover it from the union of frame extents (works for valid GIFs).
-  let canvasWidth = 0
-  let canvasHeight = 0
-  for (const f of frames) {
-    canvasWidth = Math.max(canvasWidth, f.info.x + f.info.width)
-    canvasHeight = Math.max(canvasHeight, f.info.y + f.info.height)
-  }
+  const writer = createWriter(stream, padded)
 
-  const budget = computeOutputBudget(canvasWidth, canvasHeight, frames) + padded.length * 3
-  const out = Buffer.alloc(budget)
+  for (let i = 0; i < frames.length; i++) {
+    const f = frames[i]
+    writeExtensions(writer, stream, i, padded)
+    if (delays[i] === null) continue
 
-  const writer = new Writer(out, canvasWidth, canvasHeight, {
-    palette: padded,
-    loop: frames.length > 1 ? 0 : null,
-  })
-
-  for (const f of frames) {
     const newIndices = new Uint8Array(f.indices.length)
     const oldTrans = f.info.transparent_index
     for (let p = 0; p < f.indices.length; p++) {
@@ -286,29 +543,228 @@ function tryGlobalPalette(
       f.info.height,
       newIndices,
       {
-        delay: f.info.delay,
+        delay: delays[i]!,
         disposal: f.info.disposal,
         transparent: oldTrans !== null && TRANSPARENT_SLOT >= 0 ? TRANSPARENT_SLOT : undefined,
+        interlaced: f.info.interlaced,
+        lossy,
         // No `palette` here → writer uses the global palette.
       },
     )
   }
 
+  writeExtensions(writer, stream, frames.length, padded)
   writer.end()
-  return Uint8Array.from(out.slice(0, writer.getOutputBufferPosition()))
+  return writer.toUint8Array()
 }
 
-function computeOutputBudget(
-  width: number,
-  height: number,
-  frames: Array<{ indices: Uint8Array }>,
-): number {
-  // Upper bound: header + global palette + per-frame (image descriptor +
-  // local palette + LZW size, which is at worst input size + 1/63 overhead
-  // for sub-block lengths). Add slack for GCEs, Netscape loop block, etc.
-  let total = 1024 // header + LSD + global palette + Netscape extension
+interface Rect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/** A composited frame waiting to be written, see `encodeDeltas()`. */
+interface PendingDelta {
+  /** Canvas before the frame is drawn. */
+  base: Uint8Array
+  /** Canvas after the frame is drawn. */
+  canvas: Uint8Array
+  /** Pixels that differ between the two. */
+  changed: Rect | null
+  source: Frame
+  index: number
+  delay: number
+}
+
+/**
+ * Re-encode from the composited frames: each output frame covers only what
+ * changed since the previous one, unchanged pixels inside that box become
+ * transparent. Returns null when a frame's changes need more than 255
+ * colours (plus the transparent slot).
+ *
+ * Frames are left in place (disposal 1) so the next frame only has to draw
+ * its differences. Drawing can't make a pixel transparent again, so when
+ * the next canvas has see-through pixels that used to be opaque, the frame
+ * is restored to background (2) instead, its rectangle widened to cover
+ * those pixels, and the next frame redraws whatever else was cleared.
+ */
+function encodeDeltas(
+  reader: Reader,
+  frames: DecodedFrame[],
+  stream: StreamInfo,
+  delays: Array<number | null>,
+  lossy: number,
+): Uint8Array | null {
+  const { width, height } = stream
+  const size = width * height * 4
+
+  // The composited colours all come from the source palettes, so the
+  // union of used colours tells whether one global table will do.
+  const colorSet = new Set<number>()
   for (const f of frames) {
-    total += 1024 + Math.ceil(f.indices.length * 9 / 8) + Math.ceil(f.indices.length / 254)
+    for (const idx of f.usedSet) {
+      if (idx !== f.info.transparent_index) colorSet.add(f.palette[idx] ?? 0)
+    }
+  }
+  for (const color of textColors(stream)) colorSet.add(color)
+
+  let globalPalette: number[] | undefined
+  if (colorSet.size < 256) {
+    globalPalette = Array.from(colorSet).sort((a, b) => a - b)
+    globalPalette.push(0) // transparent slot
+  }
+
+  const writerPalette = globalPalette ? padPalette(globalPalette) : textPalette(stream)
+  const writer = createWriter(stream, writerPalette)
+
+  // Extensions are written up to and including the frame's own slot, so
+  // those in front of dropped frames aren't lost.
+  let nextExtensions = 0
+  const flushExtensions = (upTo: number) => {
+    for (; nextExtensions <= upTo; nextExtensions++) writeExtensions(writer, stream, nextExtensions, writerPalette)
+  }
+
+  const writeDelta = (frame: PendingDelta, rect: Rect | null, disposal: number): boolean => {
+    flushExtensions(frame.index)
+
+    // Nothing to draw: a single transparent pixel keeps the frame (and its
+    // delay) in the timeline.
+    const r = rect ?? { x: 0, y: 0, width: 1, height: 1 }
+    const palette = globalPalette ?? collectColors(frame, r, width)
+    if (palette === null) return false
+
+    const transparent = palette.length - 1
+    const lookup = new Map<number, number>()
+    for (let n = 0; n < transparent; n++) lookup.set(palette[n], n)
+
+    const indices = new Uint8Array(r.width * r.height)
+    for (let y = 0; y < r.height; y++) {
+      for (let x = 0; x < r.width; x++) {
+        const o = ((r.y + y) * width + r.x + x) * 4
+        indices[y * r.width + x] = rect && !samePixel(frame.canvas, frame.base, o)
+          ? lookup.get(rgbAt(frame.canvas, o))!
+          : transparent
+      }
+    }
+
+    writer.addFrame(r.x, r.y, r.width, r.height, indices, {
+      palette: globalPalette ? undefined : padPalette(palette),
+      delay: frame.delay,
+      disposal,
+      transparent,
+      interlaced: frame.source.interlaced,
+      lossy,
+    })
+    return true
+  }
+
+  let pending: PendingDelta | null = null
+  let base: Uint8Array = new Uint8Array(size) // Starts out fully transparent.
+
+  for (let i = 0; i < frames.length; i++) {
+    if (delays[i] === null) continue
+    const canvas = reader.renderFrame(i)
+
+    if (pending) {
+      // Pixels the previous frame's disposal has to clear.
+      const clear = boundingBox(width, height, o => pending!.canvas[o + 3] !== 0 && canvas[o + 3] === 0)
+      let disposal = 1
+      let rect = pending.changed
+      base = pending.canvas
+
+      if (clear) {
+        disposal = 2
+        rect = union(rect, clear)
+        base = pending.canvas.slice()
+        for (let y = rect.y; y < rect.y + rect.height; y++)
+          base.fill(0, (y * width + rect.x) * 4, (y * width + rect.x + rect.width) * 4)
+      }
+
+      if (!writeDelta(pending, rect, disposal)) return null
+    }
+
+    const b = base
+    pending = {
+      base: b,
+      canvas,
+      changed: boundingBox(width, height, o => !samePixel(canvas, b, o)),
+      source: frames[i].info,
+      index: i,
+      delay: delays[i]!,
+    }
   }
-  return Math.max(total, width * height * 2 + 4096)
+
+  if (!writeDelta(pending!, pending!.changed, 1)) return null
+
+  flushExtensions(frames.length)
+  writer.end()
+  return writer.toUint8Array()
+}
+
+function sameCanvas(a: Uint8Array, b: Uint8Array): boolean {
+  for (let o = 0; o < a.length; o += 4) {
+    if (!samePixel(a, b, o)) return false
+  }
+  return true
+}
+
+/** Both transparent, or the same opaque colour. */
+function samePixel(a: Uint8Array, b: Uint8Array, o: number): boolean {
+  if (a[o + 3] === 0 || b[o + 3] === 0) return a[o + 3] === b[o + 3]
+  return a[o] === b[o] && a[o + 1] === b[o + 1] && a[o + 2] === b[o + 2]
+}
+
+function rgbAt(pixels: Uint8Array, o: number): number {
+  return (pixels[o] << 16) | (pixels[o + 1] << 8) | pixels[o + 2]
+}
+
+/** Smallest rectangle holding every pixel offset `test` accepts, or null. */
+function boundingBox(width: number, height: number, test: (offset: number) => boolean): Rect | null {
+  let x0 = width
+  let y0 = height
+  let x1 = -1
+  let y1 = -1
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!test((y * width + x) * 4)) continue
+      if (x < x0) x0 = x
+      if (x > x1) x1 = x
+      if (y < y0) y0 = y
+      y1 = y
+    }
+  }
+  return x1 < 0 ? null : { x: x0, y: y0, width: x1 - x0 + 1, height: y1 - y0 + 1 }
+}
+
+function union(a: Rect | null, b: Rect): Rect {
+  if (!a) return b
+  const x = Math.min(a.x, b.x)
+  const y = Math.min(a.y, b.y)
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y,
+  }
+}
+
+/**
+ * Local palette for one delta frame: the colours it draws, plus a
+ * transparent slot at the end. Null if they don't fit.
+ */
+function collectColors(frame: PendingDelta, rect: Rect, canvasWidth: number): number[] | null {
+  const colors = new Set<number>()
+  for (let y = rect.y; y < rect.y + rect.height; y++) {
+    for (let x = rect.x; x < rect.x + rect.width; x++) {
+      const o = (y * canvasWidth + x) * 4
+      if (samePixel(frame.canvas, frame.base, o)) continue
+      colors.add(rgbAt(frame.canvas, o))
+      if (colors.size > 255) return null
+    }
+  }
+  const palette = Array.from(colors).sort((a, b) => a - b)
+  palette.push(0) // transparent slot
+  return palette
 }
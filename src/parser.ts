@@ -0,0 +1,246 @@
+/**
+ * Incremental GIF parser — push bytes in as they arrive, get blocks out as
+ * soon as each one is complete.
+ *
+ * It walks the file with the same block parser as `Reader` (`parseHeader()`
+ * / `parseBlock()`), it just waits until `blockEnd()` says a whole block has
+ * arrived before handing it over. Received bytes are kept, so any frame that
+ * has been announced can be decoded right away with the same blitting code
+ * `Reader` uses — e.g. to show the first frame of an upload while the rest
+ * is still on the wire.
+ */
+
+import type { ParseState } from './reader'
+import type { Frame, GifApplicationExtension, GifComment, PlainText } from './types'
+import { GifError, GifFormatError, GifLimitError } from './errors'
+import { blitFrameBGRA, blitFrameRGBA, blitPlainTextRGBA, blockEnd, createParseState, parseBlock, parseHeader, pixelAspectRatio, readPalette } from './reader'
+
+// Starting size of the buffer received bytes are collected in.
+const INITIAL_CAPACITY = 64 * 1024
+
+export interface GifHeaderInfo {
+  width: number
+  height: number
+  /** Entries in the global colour table, or `null` when there is none. */
+  globalPaletteSize: number | null
+}
+
+export interface GifExtensionInfo {
+  /** Extension label, e.g. `0xF9` (graphics control) or `0xFF` (application). */
+  label: number
+  /** Offset of the extension introducer (`0x21`) in the stream. */
+  offset: number
+  /** Size of the whole extension block in bytes. */
+  length: number
+}
+
+export interface GifParserHandlers {
+  /** Header, logical screen descriptor and global colour table are in. */
+  onHeader?: (header: GifHeaderInfo) => void
+  /** A frame's image data is complete; it can be decoded now. */
+  onFrame?: (frame: Frame, index: number) => void
+  /** An extension block is complete. */
+  onExtension?: (extension: GifExtensionInfo) => void
+  /** The trailer was seen, or `end()` was called on a file without one. */
+  onEnd?: () => void
+}
+
+export class GifParser {
+  private buffer: Uint8Array = new Uint8Array(INITIAL_CAPACITY)
+  private length: number = 0
+  private position: number = 0
+  private state: ParseState = createParseState()
+  private headerParsed: boolean = false
+  private finished: boolean = false
+  private handlers: GifParserHandlers
+
+  constructor(handlers: GifParserHandlers = {}) {
+    this.handlers = handlers
+  }
+
+  /** Append a chunk of the file and parse every block it completes. */
+  feed(chunk: Uint8Array): void {
+    if (this.finished) {
+      throw new GifError('Parser already ended.', 'parser-ended')
+    }
+
+    // Anything after the trailer is ignored, same as Reader.
+    if (this.state.ended)
+      return
+
+    this.append(chunk)
+
+    if (!this.headerParsed && !this.tryParseHeader())
+      return
+
+    this.parseBlocks()
+  }
+
+  /**
+   * Signal that no more data is coming. Throws if the input stopped in the
+   * middle of the header or of a block.
+   */
+  end(): void {
+    if (this.finished)
+      return
+    this.finished = true
+
+    if (!this.headerParsed) {
+      throw new GifFormatError('Invalid GIF 87a/89a header.', 'invalid-header', { offset: 0 })
+    }
+
+    if (!this.state.ended) {
+      if (this.position < this.length) {
+        throw new GifFormatError('Invalid block size', 'truncated', { offset: this.position })
+      }
+      this.handlers.onEnd?.()
+    }
+  }
+
+  /** Whether the trailer has been seen. */
+  isComplete(): boolean {
+    return this.state.ended
+  }
+
+  numFrames(): number {
+    return this.state.frames.length
+  }
+
+  getLoopCount(): number | null {
+    return this.state.loop_count
+  }
+
+  getWidth(): number {
+    return this.state.width
+  }
+
+  getHeight(): number {
+    return this.state.height
+  }
+
+  getBackgroundIndex(): number {
+    return this.state.background_index
+  }
+
+  /** See `Reader.getBackgroundColor()`. */
+  getBackgroundColor(): number | null {
+    const palette = this.getGlobalPalette()
+    if (palette === null || this.state.background_index >= palette.length)
+      return null
+    return palette[this.state.background_index]
+  }
+
+  getPixelAspectRatio(): number | null {
+    return pixelAspectRatio(this.state.pixel_aspect_ratio)
+  }
+
+  getGlobalPalette(): number[] | null {
+    if (this.state.global_palette_offset === null)
+      return null
+    return readPalette(this.buffer, this.state.global_palette_offset, this.state.global_palette_size!)
+  }
+
+  getFramePalette(frame_num: number): number[] | null {
+    const frame = this.frameInfo(frame_num)
+    if (frame.palette_offset === null)
+      return null
+    return readPalette(this.buffer, frame.palette_offset, frame.palette_size!)
+  }
+
+  /** Comments parsed so far, see `Reader.getComments()`. */
+  getComments(): GifComment[] {
+    return this.state.comments
+  }
+
+  /** Application extensions parsed so far, see `Reader.getApplicationExtensions()`. */
+  getApplicationExtensions(): GifApplicationExtension[] {
+    return this.state.applications
+  }
+
+  /** Plain Text Extensions parsed so far, see `Reader.getPlainTexts()`. */
+  getPlainTexts(): PlainText[] {
+    return this.state.plain_texts
+  }
+
+  frameInfo(frame_num: number): Frame {
+    if (frame_num < 0 || frame_num >= this.state.frames.length)
+      throw new GifLimitError('Frame index out of range.', 'frame-index-out-of-range', { frameIndex: frame_num })
+    return this.state.frames[frame_num]
+  }
+
+  decodeAndBlitFrameBGRA(frame_num: number, pixels: Uint8Array): void {
+    blitFrameBGRA(this.buffer, this.state.width, this.frameInfo(frame_num), pixels, frame_num)
+  }
+
+  decodeAndBlitFrameRGBA(frame_num: number, pixels: Uint8Array): void {
+    blitFrameRGBA(this.buffer, this.state.width, this.frameInfo(frame_num), pixels, frame_num)
+  }
+
+  decodeAndBlitPlainTextRGBA(text_num: number, pixels: Uint8Array): void {
+    if (text_num < 0 || text_num >= this.state.plain_texts.length)
+      throw new GifLimitError('Plain text index out of range.', 'plain-text-index-out-of-range')
+    blitPlainTextRGBA(this.buffer, this.state.width, this.state.plain_texts[text_num], pixels)
+  }
+
+  private append(chunk: Uint8Array): void {
+    const needed = this.length + chunk.length
+    if (needed > this.buffer.length) {
+      let capacity = this.buffer.length * 2
+      while (capacity < needed) capacity *= 2
+      const grown = new Uint8Array(capacity)
+      grown.set(this.buffer.subarray(0, this.length))
+      this.buffer = grown
+    }
+    this.buffer.set(chunk, this.length)
+    this.length = needed
+  }
+
+  // Header + logical screen descriptor (13 bytes) and the global colour
+  // table that follows when the descriptor says there is one.
+  private tryParseHeader(): boolean {
+    if (this.length < 13)
+      return false
+
+    const pf0 = this.buffer[10]
+    const size = pf0 >> 7 ? 13 + (1 << ((pf0 & 0x7) + 1)) * 3 : 13
+    if (this.length < size)
+      return false
+
+    this.position = parseHeader(this.buffer, this.state)
+    this.headerParsed = true
+
+    this.handlers.onHeader?.({
+      width: this.state.width,
+      height: this.state.height,
+      globalPaletteSize: this.state.global_palette_size,
+    })
+    return true
+  }
+
+  private parseBlocks(): void {
+    const state = this.state
+
+    while (!state.ended) {
+      const start = this.position
+      if (blockEnd(this.buffer, start, this.length) < 0)
+        break
+
+      const framesBefore = state.frames.length
+      this.position = parseBlock(this.buffer, start, state)
+
+      if (this.buffer[start] === 0x21) {
+        this.handlers.onExtension?.({
+          label: this.buffer[start + 1],
+          offset: start,
+          length: this.position - start,
+        })
+      }
+      else if (state.frames.length > framesBefore) {
+        this.handlers.onFrame?.(state.frames[framesBefore], framesBefore)
+      }
+    }
+
+    if (state.ended)
+      this.handlers.onEnd?.()
+  }
+}
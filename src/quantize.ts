@@ -0,0 +1,412 @@
+/**
+ * Colour quantization — true-colour RGBA → palette + index stream.
+ *
+ * Two classic algorithms, both pure TypeScript:
+ *
+ *   1. **Median cut** — recursively split the colour-space box with the
+ *      biggest (population × extent) along its widest channel, at the
+ *      population-weighted median. Good all-rounder, deterministic.
+ *
+ *   2. **Octree** — insert every colour into an 8-level octree, then fold
+ *      the least-populated deepest nodes into their parents until the leaf
+ *      count fits. Faster on images with huge numbers of unique colours.
+ *
+ * The result is shaped for `Writer.addFrame()` directly: `palette` is always
+ * padded to a power of two, and `transparent` (when the input has
+ * see-through pixels) is ready to pass as `FrameOptions.transparent`.
+ */
+
+import { GifEncodeError, GifLimitError } from './errors'
+
+export type QuantizeMethod = 'median-cut' | 'octree'
+
+export interface QuantizeOptions {
+  /** Quantization algorithm. Default `'median-cut'`. */
+  method?: QuantizeMethod
+  /**
+   * Maximum number of palette entries, including the transparent slot.
+   * Must be an integer in 2 .. 256. Default `256`.
+   */
+  maxColors?: number
+  /**
+   * Pixels whose alpha is below this value are mapped to the transparent
+   * index. Pass `0` to treat every pixel as opaque. Default `128`.
+   */
+  alphaThreshold?: number
+}
+
+export interface QuantizeResult {
+  /** Power-of-two palette of 24-bit RGB integers, 2 .. 256 entries. */
+  palette: number[]
+  /** One palette index per pixel, row-major. */
+  indices: Uint8Array
+  /** Palette index used for transparent pixels, if any were found. */
+  transparent?: number
+}
+
+/**
+ * Reduce an RGBA image to at most `maxColors` colours. Colours are kept
+ * exactly when the image already fits into the budget.
+ */
+export function quantize(
+  rgba: Uint8Array,
+  width: number,
+  height: number,
+  options: QuantizeOptions = {},
+): QuantizeResult {
+  if (width <= 0 || height <= 0) {
+    throw new GifLimitError('Width/Height invalid.', 'dimensions-out-of-range')
+  }
+
+  const numPixels = width * height
+  if (rgba.length < numPixels * 4) {
+    throw new GifEncodeError('Not enough pixels for the frame size.', 'not-enough-pixels')
+  }
+
+  const maxColors = options.maxColors ?? 256
+  if (!Number.isInteger(maxColors) || maxColors < 2 || maxColors > 256) {
+    throw new GifLimitError('maxColors must be an integer in 2 .. 256.', 'palette-size-out-of-range')
+  }
+
+  const alphaThreshold = options.alphaThreshold ?? 128
+  const method = options.method ?? 'median-cut'
+
+  // Histogram of opaque colours, keyed on packed 0xRRGGBB.
+  const histogram = new Map<number, number>()
+  let hasTransparent = false
+  for (let i = 0; i < numPixels; i++) {
+    const o = i * 4
+    if (rgba[o + 3] < alphaThreshold) {
+      hasTransparent = true
+      continue
+    }
+    const rgb = (rgba[o] << 16) | (rgba[o + 1] << 8) | rgba[o + 2]
+    histogram.set(rgb, (histogram.get(rgb) ?? 0) + 1)
+  }
+
+  // The transparent slot eats one entry of the budget.
+  const budget = maxColors - (hasTransparent ? 1 : 0)
+
+  let colors: number[]
+  if (histogram.size <= budget) {
+    colors = Array.from(histogram.keys()).sort((a, b) => a - b)
+  }
+  else if (method === 'median-cut') {
+    colors = medianCut(histogram, budget)
+  }
+  else if (method === 'octree') {
+    colors = octree(histogram, budget)
+  }
+  else {
+    throw new GifEncodeError(`Unknown quantize method: ${String(method)}`, 'invalid-option')
+  }
+
+  const numColors = colors.length
+  const transparent = hasTransparent ? numColors : undefined
+  if (hasTransparent) colors.push(0) // placeholder colour for the transparent slot
+
+  const palette = padPalette(colors)
+  const match = createPaletteMatcher(palette, numColors)
+
+  const indices = new Uint8Array(numPixels)
+  for (let i = 0; i < numPixels; i++) {
+    const o = i * 4
+    indices[i] = rgba[o + 3] < alphaThreshold
+      ? transparent!
+      : match(rgba[o], rgba[o + 1], rgba[o + 2])
+  }
+
+  return { palette, indices, transparent }
+}
+
+/** Round palette length up to a power of two ≥ 2 by padding with black. */
+export function padPalette(palette: number[]): number[] {
+  if (palette.length > 256) {
+    throw new GifLimitError('Palette has more than 256 entries.', 'palette-size-out-of-range')
+  }
+  let psize = 2
+  while (psize < palette.length) psize <<= 1
+  const padded = palette.slice()
+  while (padded.length < psize) padded.push(0)
+  return padded
+}
+
+/**
+ * Build a lookup from an RGB triple to the closest of the first `count`
+ * palette entries (squared Euclidean distance), never returning `skip`
+ * (typically the transparent slot). Results are memoized per exact colour,
+ * which pays off on the large flat areas typical of GIFs.
+ */
+export function createPaletteMatcher(
+  palette: number[],
+  count: number = palette.length,
+  skip: number = -1,
+): (r: number, g: number, b: number) => number {
+  const n = Math.min(count, palette.length)
+  const pr = new Int32Array(n)
+  const pg = new Int32Array(n)
+  const pb = new Int32Array(n)
+  for (let i = 0; i < n; i++) {
+    pr[i] = palette[i] >> 16 & 0xFF
+    pg[i] = palette[i] >> 8 & 0xFF
+    pb[i] = palette[i] & 0xFF
+  }
+
+  const cache = new Map<number, number>()
+
+  return (r: number, g: number, b: number): number => {
+    const key = (r << 16) | (g << 8) | b
+    const hit = cache.get(key)
+    if (hit !== undefined) return hit
+
+    let best = 0
+    let bestDist = Infinity
+    for (let i = 0; i < n; i++) {
+      if (i === skip) continue
+      const dr = r - pr[i]
+      const dg = g - pg[i]
+      const db = b - pb[i]
+      const dist = dr * dr + dg * dg + db * db
+      if (dist < bestDist) {
+        bestDist = dist
+        best = i
+        if (dist === 0) break
+      }
+    }
+
+    cache.set(key, best)
+    return best
+  }
+}
+
+// ───────────────────────────────────────────────────────────────────────────
+// Median cut
+// ───────────────────────────────────────────────────────────────────────────
+
+interface ColorBox {
+  colors: number[]
+  population: number
+}
+
+function medianCut(histogram: Map<number, number>, budget: number): number[] {
+  const boxes: ColorBox[] = [{ colors: Array.from(histogram.keys()), population: 0 }]
+  for (const count of histogram.values()) boxes[0].population += count
+
+  while (boxes.length < budget) {
+    // Pick the box that matters most: lots of pixels spread over a wide
+    // range. Single-colour boxes can't be split any further.
+    let pick = -1
+    let pickScore = -1
+    let pickShift = 0
+    for (let i = 0; i < boxes.length; i++) {
+      const box = boxes[i]
+      if (box.colors.length < 2) continue
+      const { range, shift } = widestChannel(box.colors)
+      const score = range * box.population
+      if (score > pickScore) {
+        pick = i
+        pickScore = score
+        pickShift = shift
+      }
+    }
+    if (pick < 0) break
+
+    const box = boxes[pick]
+    box.colors.sort((a, b) => (a >> pickShift & 0xFF) - (b >> pickShift & 0xFF))
+
+    // Split at the population-weighted median, keeping both halves non-empty.
+    const half = box.population / 2
+    let acc = 0
+    let cut = 1
+    for (let i = 0; i < box.colors.length - 1; i++) {
+      acc += histogram.get(box.colors[i])!
+      cut = i + 1
+      if (acc >= half) break
+    }
+
+    const lo = box.colors.slice(0, cut)
+    const hi = box.colors.slice(cut)
+    let loPopulation = 0
+    for (const c of lo) loPopulation += histogram.get(c)!
+
+    boxes[pick] = { colors: lo, population: loPopulation }
+    boxes.push({ colors: hi, population: box.population - loPopulation })
+  }
+
+  return boxes.map(box => averageColor(box.colors, histogram))
+}
+
+function widestChannel(colors: number[]): { range: number, shift: number } {
+  let rmin = 255
+  let rmax = 0
+  let gmin = 255
+  let gmax = 0
+  let bmin = 255
+  let bmax = 0
+  for (const c of colors) {
+    const r = c >> 16 & 0xFF
+    const g = c >> 8 & 0xFF
+    const b = c & 0xFF
+    if (r < rmin) rmin = r
+    if (r > rmax) rmax = r
+    if (g < gmin) gmin = g
+    if (g > gmax) gmax = g
+    if (b < bmin) bmin = b
+    if (b > bmax) bmax = b
+  }
+
+  const rr = rmax - rmin
+  const gr = gmax - gmin
+  const br = bmax - bmin
+  if (gr >= rr && gr >= br) return { range: gr, shift: 8 }
+  if (rr >= br) return { range: rr, shift: 16 }
+  return { range: br, shift: 0 }
+}
+
+function averageColor(colors: number[], histogram: Map<number, number>): number {
+  let r = 0
+  let g = 0
+  let b = 0
+  let total = 0
+  for (const c of colors) {
+    const n = histogram.get(c)!
+    r += (c >> 16 & 0xFF) * n
+    g += (c >> 8 & 0xFF) * n
+    b += (c & 0xFF) * n
+    total += n
+  }
+  return (Math.round(r / total) << 16) | (Math.round(g / total) << 8) | Math.round(b / total)
+}
+
+// ───────────────────────────────────────────────────────────────────────────
+// Octree
+// ───────────────────────────────────────────────────────────────────────────
+
+interface OctreeNode {
+  r: number
+  g: number
+  b: number
+  count: number
+  children: Array<OctreeNode | undefined> | null
+}
+
+const OCTREE_DEPTH = 8
+
+function octree(histogram: Map<number, number>, budget: number): number[] {
+  const root: OctreeNode = { r: 0, g: 0, b: 0, count: 0, children: [] }
+  // Interior nodes by level, so reduction can always start from the deepest.
+  const levels: OctreeNode[][] = Array.from({ length: OCTREE_DEPTH }, () => [])
+  levels[0].push(root)
+  let leafCount = 0
+
+  for (const [rgb, count] of histogram) {
+    const r = rgb >> 16 & 0xFF
+    const g = rgb >> 8 & 0xFF
+    const b = rgb & 0xFF
+
+    let node = root
+    for (let level = 0; level < OCTREE_DEPTH; level++) {
+      const bit = 7 - level
+      const slot = ((r >> bit & 1) << 2) | ((g >> bit & 1) << 1) | (b >> bit & 1)
+      let child = node.children![slot]
+      if (!child) {
+        const leaf = level === OCTREE_DEPTH - 1
+        child = { r: 0, g: 0, b: 0, count: 0, children: leaf ? null : [] }
+        node.children![slot] = child
+        if (leaf) leafCount++
+        else levels[level + 1].push(child)
+      }
+      node = child
+    }
+
+    node.r += r * count
+    node.g += g * count
+    node.b += b * count
+    node.count += count
+  }
+
+  // Fold the least-populated deepest interior node into a leaf until the
+  // leaf count fits the budget. The root is never folded: that would jump
+  // straight to a single colour, so the last few merges happen below.
+  for (let level = OCTREE_DEPTH - 1; level >= 1 && leafCount > budget; level--) {
+    const nodes = levels[level]
+    for (const node of nodes) node.count = subtreeCount(node)
+    nodes.sort((a, b) => b.count - a.count)
+
+    while (nodes.length > 0 && leafCount > budget) {
+      const node = nodes.pop()!
+      let merged = 0
+      node.r = node.g = node.b = 0
+      for (const child of node.children!) {
+        if (!child) continue
+        node.r += child.r
+        node.g += child.g
+        node.b += child.b
+        merged++
+      }
+      node.children = null
+      leafCount -= merged - 1
+    }
+  }
+
+  const leaves: OctreeNode[] = []
+  collectLeaves(root, leaves)
+
+  // At most 8 leaves can remain over budget here; merge the least-populated
+  // one into its nearest neighbour until they fit.
+  while (leaves.length > budget) {
+    let smallest = 0
+    for (let i = 1; i < leaves.length; i++) {
+      if (leaves[i].count < leaves[smallest].count) smallest = i
+    }
+    const [leaf] = leaves.splice(smallest, 1)
+    const color = leafColor(leaf)
+
+    let nearest = 0
+    let nearestDist = Infinity
+    for (let i = 0; i < leaves.length; i++) {
+      const other = leafColor(leaves[i])
+      const dr = (color >> 16 & 0xFF) - (other >> 16 & 0xFF)
+      const dg = (color >> 8 & 0xFF) - (other >> 8 & 0xFF)
+      const db = (color & 0xFF) - (other & 0xFF)
+      const dist = dr * dr + dg * dg + db * db
+      if (dist < nearestDist) {
+        nearest = i
+        nearestDist = dist
+      }
+    }
+
+    leaves[nearest].r += leaf.r
+    leaves[nearest].g += leaf.g
+    leaves[nearest].b += leaf.b
+    leaves[nearest].count += leaf.count
+  }
+
+  return leaves.map(leafColor)
+}
+
+function subtreeCount(node: OctreeNode): number {
+  if (node.children === null) return node.count
+  let total = 0
+  for (const child of node.children) {
+    if (child) total += subtreeCount(child)
+  }
+  return total
+}
+
+function collectLeaves(node: OctreeNode, out: OctreeNode[]): void {
+  if (node.children === null) {
+    out.push(node)
+    return
+  }
+  for (const child of node.children) {
+    if (child) collectLeaves(child, out)
+  }
+}
+
+function leafColor(node: OctreeNode): number {
+  const r = Math.round(node.r / node.count)
+  const g = Math.round(node.g / node.count)
+  const b = Math.round(node.b / node.count)
+  return (r << 16) | (g << 8) | b
+}
@@ -1,192 +1,66 @@
 import type { Buffer } from 'node:buffer'
-import type { Frame } from './types'
+import type { Frame, FrameIteratorOptions, GifApplicationExtension, GifComment, PlainText, ReaderOptions, RenderedFrame } from './types'
+import { Compositor } from './compositor'
+import { GifFormatError, GifLimitError } from './errors'
+import { drawPlainText } from './font'
 
 export class Reader {
-  private frames: Frame[] = []
+  private frame_infos: Frame[] = []
   private width: number
   private height: number
   private loop_count: number | null = null
+  private global_palette_offset: number | null
+  private global_palette_size: number | null
+  private background_index: number
+  private pixel_aspect_ratio: number
+  private comments: GifComment[] = []
+  private applications: GifApplicationExtension[] = []
+  private plain_texts: PlainText[] = []
   private buffer: Buffer
+  private compositor: Compositor | null = null
 
-  constructor(buf: Buffer) {
+  // With |options.lenient|, a file that is cut off or corrupted keeps the
+  // frames parsed before the damage; see Frame.partial.
+  constructor(buf: Buffer, options: ReaderOptions = {}) {
     this.buffer = buf
-    let p = 0
 
-    // - Header (GIF87a or GIF89a)
-    if (buf[p++] !== 0x47 || buf[p++] !== 0x49 || buf[p++] !== 0x46
-      || buf[p++] !== 0x38 || (buf[p++] + 1 & 0xFD) !== 0x38 || buf[p++] !== 0x61) {
-      throw new Error('Invalid GIF 87a/89a header.')
-    }
-
-    // - Logical Screen Descriptor
-    this.width = buf[p++] | buf[p++] << 8
-    this.height = buf[p++] | buf[p++] << 8
-    const pf0 = buf[p++] // <Packed Fields>
-    const global_palette_flag = pf0 >> 7
-    const num_global_colors_pow2 = pf0 & 0x7
-    const num_global_colors = 1 << (num_global_colors_pow2 + 1)
-
-    // The Logical Screen Descriptor has TWO trailer bytes after `pf0`:
-    //   bg_color_index (1) + pixel_aspect_ratio (1).
-    // Skipping only one used to silently land us into the middle of the
-    // global colour table — which made every decoded colour come back
-    // shifted by one byte. Fixed.
-    p++ // bg_color_index (unused — reader doesn't paint a backdrop)
-    p++ // pixel aspect ratio (unused)
-
-    let global_palette_offset = null
-    let global_palette_size = null
-
-    if (global_palette_flag) {
-      global_palette_offset = p
-      global_palette_size = num_global_colors
-      p += num_global_colors * 3 // Seek past palette.
-    }
-
-    let no_eof = true
-    let delay = 0
-    let transparent_index = null
-    let disposal = 0 // 0 - No disposal specified.
-
-    while (no_eof && p < buf.length) {
-      switch (buf[p++]) {
-        case 0x21: // Graphics Control Extension Block
-          switch (buf[p++]) {
-            case 0xFF: // Application specific block
-              // Try if it's a Netscape block (with animation loop counter).
-              if (buf[p] !== 0x0B // 21 FF already read, check block size.
-                // NETSCAPE2.0
-                // eslint-disable-next-line style/no-mixed-operators
-                || buf[p + 1] === 0x4E && buf[p + 2] === 0x45 && buf[p + 3] === 0x54
-                && buf[p + 4] === 0x53 && buf[p + 5] === 0x43 && buf[p + 6] === 0x41
-                && buf[p + 7] === 0x50 && buf[p + 8] === 0x45 && buf[p + 9] === 0x32
-                && buf[p + 10] === 0x2E && buf[p + 11] === 0x30
-                // Sub-block
-                // eslint-disable-next-line style/no-mixed-operators
-                && buf[p + 12] === 0x03 && buf[p + 13] === 0x01 && buf[p + 16] === 0) {
-                p += 14
-                this.loop_count = buf[p++] | buf[p++] << 8
-                p++ // Skip terminator.
-              }
-              else { // We don't know what it is, just try to get past it.
-                p += 12
-                while (true) { // Seek through subblocks.
-                  const block_size = buf[p++]
-                  // Bad block size (ex: undefined from an out of bounds read).
-                  if (!(block_size >= 0))
-                    throw new Error('Invalid block size')
-                  if (block_size === 0)
-                    break // 0 size is terminator
-                  p += block_size
-                }
-              }
-              break
-
-            case 0xF9: { // Graphics Control Extension
-              if (buf[p++] !== 0x4 || buf[p + 4] !== 0)
-                throw new Error('Invalid graphics extension block.')
-
-              const pf1 = buf[p++]
-
-              delay = buf[p++] | buf[p++] << 8
-              transparent_index = buf[p++]
-              if ((pf1 & 1) === 0)
-                transparent_index = null
-              disposal = pf1 >> 2 & 0x7
-              p++ // Skip terminator.
-              break
-            }
-
-            // Plain Text Extension could be present and we just want to be able
-            // to parse past it.  It follows the block structure of the comment
-            // extension enough to reuse the path to skip through the blocks.
-            case 0x01: // Plain Text Extension (fallthrough to Comment Extension)
-            case 0xFE: // Comment Extension.
-              while (true) { // Seek through subblocks.
-                const block_size = buf[p++]
-                if (!(block_size >= 0))
-                  throw new Error('Invalid block size')
-                if (block_size === 0)
-                  break
-                p += block_size
-              }
-              break
-
-            default:
-              throw new Error(
-                `Unknown graphic control label: 0x${buf[p - 1].toString(16)}`,
-              )
-          }
-          break
-
-        case 0x2C: { // Image Descriptor.
-          const x = buf[p++] | buf[p++] << 8
-          const y = buf[p++] | buf[p++] << 8
-          const w = buf[p++] | buf[p++] << 8
-          const h = buf[p++] | buf[p++] << 8
-          const pf2 = buf[p++]
-          const local_palette_flag = pf2 >> 7
-          const interlace_flag = pf2 >> 6 & 1
-          const num_local_colors_pow2 = pf2 & 0x7
-          const num_local_colors = 1 << (num_local_colors_pow2 + 1)
-          const data_offset = p
-
-          let palette_offset = global_palette_offset
-          let palette_size = global_palette_size
-          let has_local_palette = false
-          if (local_palette_flag) {
-            has_local_palette = true
-            palette_offset = p // Override with local palette.
-            palette_size = num_local_colors
-            p += num_local_colors * 3 // Seek past palette.
-          }
-
-          p++ // codesize
-          while (true) {
-            const block_size = buf[p++]
-            if (!(block_size >= 0))
-              throw new Error('Invalid block size')
-            if (block_size === 0)
-              break
-            p += block_size
-          }
-
-          this.frames.push({
-            x,
-            y,
-            width: w,
-            height: h,
-            has_local_palette,
-            palette_offset,
-            palette_size,
-            data_offset,
-            data_length: p - data_offset,
-            transparent_index,
-            interlaced: !!interlace_flag,
-            delay,
-            disposal,
-          })
-          break
-        }
-
-        case 0x3B: // Trailer Marker (end of file).
-          no_eof = false
-          break
+    const state = createParseState(options.lenient ?? false)
+    let p = parseHeader(buf, state)
 
-        case 0x00:
-          // Many in-the-wild GIFs include stray 0x00 bytes between blocks.
-          // The spec doesn't allow them, but every popular decoder skips
-          // them silently — match that to stay compatible.
-          break
-
-        default:
-          throw new Error(`Unknown gif block: 0x${buf[p - 1].toString(16)}`)
+    while (!state.ended && p < buf.length) {
+      try {
+        p = parseBlock(buf, p, state)
+      }
+      catch (err) {
+        if (!state.lenient)
+          throw err
+        // Nothing after the damage can be trusted, stop at the last frame.
+        // Garbage right where that frame's data ends means its sub-block
+        // lengths were off, so the frame itself may be short.  A broken
+        // block further on leaves it intact.
+        const last = state.frames[state.frames.length - 1]
+        if (last !== undefined && p === last.data_offset + last.data_length
+          && err instanceof GifFormatError && err.code === 'unknown-block')
+          last.partial = true
+        break
       }
     }
+
+    this.width = state.width
+    this.height = state.height
+    this.frame_infos = state.frames
+    this.loop_count = state.loop_count
+    this.global_palette_offset = state.global_palette_offset
+    this.global_palette_size = state.global_palette_size
+    this.background_index = state.background_index
+    this.pixel_aspect_ratio = state.pixel_aspect_ratio
+    this.comments = state.comments
+    this.applications = state.applications
+    this.plain_texts = state.plain_texts
   }
 
   numFrames(): number {
-    return this.frames.length
+    return this.frame_infos.length
   }
 
   getLoopCount(): number | null {
@@ -201,168 +75,691 @@ export class Reader {
     return this.height
   }
 
+  // Index into the global palette the logical screen is meant to be
+  // filled with.  Browsers ignore it and start from transparent.
+  getBackgroundIndex(): number {
+    return this.background_index
+  }
+
+  // Background colour as 0xRRGGBB, null without a global palette.
+  getBackgroundColor(): number | null {
+    const palette = this.getGlobalPalette()
+    if (palette === null || this.background_index >= palette.length)
+      return null
+    return palette[this.background_index]
+  }
+
+  // Pixel width / height, or null when the file doesn't say (square).
+  getPixelAspectRatio(): number | null {
+    return pixelAspectRatio(this.pixel_aspect_ratio)
+  }
+
+  // Global colour table as 0xRRGGBB entries, same format Writer takes.
+  getGlobalPalette(): number[] | null {
+    if (this.global_palette_offset === null)
+      return null
+    return readPalette(this.buffer, this.global_palette_offset, this.global_palette_size!)
+  }
+
+  // The colour table frame |frame_num| is drawn with: its local one, or
+  // else the global one.
+  getFramePalette(frame_num: number): number[] | null {
+    const frame = this.frameInfo(frame_num)
+    if (frame.palette_offset === null)
+      return null
+    return readPalette(this.buffer, frame.palette_offset, frame.palette_size!)
+  }
+
+  // Every Comment Extension, in file order.  See GifComment.frameIndex for
+  // where each one sits relative to the frames.
+  getComments(): GifComment[] {
+    return this.comments
+  }
+
+  // Every Application Extension except the NETSCAPE2.0 looping block, which
+  // is reported through getLoopCount() instead.
+  getApplicationExtensions(): GifApplicationExtension[] {
+    return this.applications
+  }
+
+  getPlainTexts(): PlainText[] {
+    return this.plain_texts
+  }
+
+  // Rasterize Plain Text Extension |text_num| with the built-in font, the
+  // same way decodeAndBlitFrameRGBA() draws a frame.
+  decodeAndBlitPlainTextRGBA(text_num: number, pixels: Uint8Array): void {
+    if (text_num < 0 || text_num >= this.plain_texts.length)
+      throw new GifLimitError('Plain text index out of range.', 'plain-text-index-out-of-range')
+    blitPlainTextRGBA(this.buffer, this.width, this.plain_texts[text_num], pixels)
+  }
+
   frameInfo(frame_num: number): Frame {
-    if (frame_num < 0 || frame_num >= this.frames.length)
-      throw new Error('Frame index out of range.')
-    return this.frames[frame_num]
+    if (frame_num < 0 || frame_num >= this.frame_infos.length)
+      throw new GifLimitError('Frame index out of range.', 'frame-index-out-of-range', { frameIndex: frame_num })
+    return this.frame_infos[frame_num]
   }
 
   decodeAndBlitFrameBGRA(frame_num: number, pixels: Uint8Array): void {
-    const frame = this.frameInfo(frame_num)
-    const num_pixels = frame.width * frame.height
-    const index_stream = new Uint8Array(num_pixels)
-
-    readerLZWOutputIndexStream( // Note: This function needs to be defined elsewhere
-      this.buffer,
-      frame.data_offset,
-      index_stream,
-      num_pixels,
-    )
-
-    const palette_offset = frame.palette_offset
-
-    // NOTE(deanm): It seems to be much faster to compare index to 256 than
-    // to === null.  Not sure why, but CompareStub_EQ_STRICT shows up high in
-    // the profile, not sure if it's related to using a Uint8Array.
-    let trans = frame.transparent_index
-    if (trans === null)
-      trans = 256
-
-    // We are possibly just blitting to a portion of the entire frame.
-    // That is a subrect within the framerect, so the additional pixels
-    // must be skipped over after we finished a scanline.
-    const framewidth = frame.width
-    const framestride = this.width - framewidth
-    let xleft = framewidth // Number of subrect pixels left in scanline.
-
-    // Output index of the top left corner of the subrect.
-    const opbeg = ((frame.y * this.width) + frame.x) * 4
-    // Output index of what would be the left edge of the subrect, one row
-    // below it, i.e. the index at which an interlace pass should wrap.
-    const opend = ((frame.y + frame.height) * this.width + frame.x) * 4
-    let op = opbeg
-
-    let scanstride = framestride * 4
-
-    // Use scanstride to skip past the rows when interlacing.  This is skipping
-    // 7 rows for the first two passes, then 3 then 1.
-    if (frame.interlaced === true) {
-      scanstride += this.width * 4 * 7
+    blitFrameBGRA(this.buffer, this.width, this.frameInfo(frame_num), pixels, frame_num)
+  }
+
+  decodeAndBlitFrameRGBA(frame_num: number, pixels: Uint8Array): void {
+    blitFrameRGBA(this.buffer, this.width, this.frameInfo(frame_num), pixels, frame_num)
+  }
+
+  // Fully composited logical screen for a frame, with the disposal of every
+  // earlier frame applied.  See Compositor for the caching behaviour.
+  renderFrame(frame_num: number, out?: Uint8Array): Uint8Array {
+    if (this.compositor === null)
+      this.compositor = new Compositor(this)
+    return this.compositor.renderFrame(frame_num, out)
+  }
+
+  // Iterate over every frame, composited, with its delay in milliseconds:
+  //   for await (const { rgba, delay, index } of reader.frames()) ...
+  // With |reuseBuffer| every frame is rendered into the same array, so copy
+  // it if you need to hold on to it past the next iteration.
+  async* frames(options: FrameIteratorOptions = {}): AsyncGenerator<RenderedFrame, void, undefined> {
+    const out = options.reuseBuffer ? new Uint8Array(this.width * this.height * 4) : undefined
+
+    for (let i = 0; i < this.frame_infos.length; ++i) {
+      const frame = this.frame_infos[i]
+      yield {
+        index: i,
+        rgba: this.renderFrame(i, out),
+        delay: frame.delay * 10,
+        frame,
+      }
     }
+  }
+}
 
-    let interlaceskip = 8
+// Decode a frame and blit it onto a canvas |canvas_width| pixels wide.
+// Shared by Reader and GifParser; |frame_num| only goes into errors.
+export function blitFrameBGRA(buf: Uint8Array, canvas_width: number, frame: Frame, pixels: Uint8Array, frame_num: number | null = null): void {
+  const num_pixels = frame.width * frame.height
+  const index_stream = new Uint8Array(num_pixels)
+
+  // Pixels past |decoded| (cut off or corrupt data) are left transparent.
+  const decoded = decodeIndexStream(buf, frame.data_offset, index_stream, num_pixels)
+
+  const palette_offset = frame.palette_offset
+
+  // NOTE(deanm): It seems to be much faster to compare index to 256 than
+  // to === null.  Not sure why, but CompareStub_EQ_STRICT shows up high in
+  // the profile, not sure if it's related to using a Uint8Array.
+  let trans = frame.transparent_index
+  if (trans === null)
+    trans = 256
+
+  // We are possibly just blitting to a portion of the entire frame.
+  // That is a subrect within the framerect, so the additional pixels
+  // must be skipped over after we finished a scanline.
+  const framewidth = frame.width
+  const framestride = canvas_width - framewidth
+  let xleft = framewidth // Number of subrect pixels left in scanline.
+
+  // Output index of the top left corner of the subrect.
+  const opbeg = ((frame.y * canvas_width) + frame.x) * 4
+  // Output index of what would be the left edge of the subrect, one row
+  // below it, i.e. the index at which an interlace pass should wrap.
+  const opend = ((frame.y + frame.height) * canvas_width + frame.x) * 4
+  let op = opbeg
+
+  let scanstride = framestride * 4
+
+  // Use scanstride to skip past the rows when interlacing.  This is skipping
+  // 7 rows for the first two passes, then 3 then 1.
+  if (frame.interlaced === true) {
+    scanstride += canvas_width * 4 * 7
+  }
 
-    for (let i = 0, il = index_stream.length; i < il; ++i) {
-      const index = index_stream[i]
+  let interlaceskip = 8
 
-      if (xleft === 0) { // Beginning of new scan line
-        op += scanstride
-        xleft = framewidth
+  for (let i = 0; i < decoded; ++i) {
+    const index = index_stream[i]
 
-        if (op >= opend) {
-          scanstride = framestride * 4 + this.width * 4 * (interlaceskip - 1)
-          op = opbeg + (framewidth + framestride) * (interlaceskip << 1)
-          interlaceskip >>= 1
-        }
-      }
+    if (xleft === 0) { // Beginning of new scan line
+      op += scanstride
+      xleft = framewidth
 
-      if (index === trans) {
-        op += 4
+      while (op >= opend) { // Passes can be empty on short frames.
+        scanstride = framestride * 4 + canvas_width * 4 * (interlaceskip - 1)
+        op = opbeg + (framewidth + framestride) * (interlaceskip << 1)
+        interlaceskip >>= 1
       }
-      else {
-        if (palette_offset === null) {
-          throw new Error('No palette found for frame')
-        }
+    }
 
-        const r = this.buffer[palette_offset + index * 3]
-        const g = this.buffer[palette_offset + index * 3 + 1]
-        const b = this.buffer[palette_offset + index * 3 + 2]
-        pixels[op++] = b
-        pixels[op++] = g
-        pixels[op++] = r
-        pixels[op++] = 255
+    if (index === trans) {
+      op += 4
+    }
+    else {
+      if (palette_offset === null) {
+        throw new GifFormatError('No palette found for frame', 'missing-palette', { offset: frame.data_offset, frameIndex: frame_num })
       }
-      --xleft
+
+      const r = buf[palette_offset + index * 3]
+      const g = buf[palette_offset + index * 3 + 1]
+      const b = buf[palette_offset + index * 3 + 2]
+      pixels[op++] = b
+      pixels[op++] = g
+      pixels[op++] = r
+      pixels[op++] = 255
     }
+    --xleft
   }
+}
 
-  decodeAndBlitFrameRGBA(frame_num: number, pixels: Uint8Array): void {
-    const frame = this.frameInfo(frame_num)
-    const num_pixels = frame.width * frame.height
-    const index_stream = new Uint8Array(num_pixels)
-
-    readerLZWOutputIndexStream( // Note: This function needs to be defined elsewhere
-      this.buffer,
-      frame.data_offset,
-      index_stream,
-      num_pixels,
-    )
-
-    const palette_offset = frame.palette_offset
-    if (palette_offset === null) {
-      throw new Error('No palette found for frame')
+export function blitPlainTextRGBA(buf: Uint8Array, canvas_width: number, text: PlainText, pixels: Uint8Array): void {
+  const palette_offset = text.palette_offset
+  const palette_size = text.palette_size ?? 0
+  if (palette_offset === null)
+    throw new GifFormatError('No palette found for plain text', 'missing-palette')
+
+  // Indices past the palette, or equal to the transparent index, aren't drawn.
+  const color = (index: number): number | null => {
+    if (index >= palette_size || index === text.transparent_index)
+      return null
+    const o = palette_offset + index * 3
+    return buf[o] << 16 | buf[o + 1] << 8 | buf[o + 2]
+  }
+
+  drawPlainText(pixels, canvas_width, text, color(text.foreground_index), color(text.background_index))
+}
+
+export function blitFrameRGBA(buf: Uint8Array, canvas_width: number, frame: Frame, pixels: Uint8Array, frame_num: number | null = null): void {
+  const num_pixels = frame.width * frame.height
+  const index_stream = new Uint8Array(num_pixels)
+
+  // Pixels past |decoded| (cut off or corrupt data) are left transparent.
+  const decoded = decodeIndexStream(buf, frame.data_offset, index_stream, num_pixels)
+
+  const palette_offset = frame.palette_offset
+  if (palette_offset === null) {
+    throw new GifFormatError('No palette found for frame', 'missing-palette', { offset: frame.data_offset, frameIndex: frame_num })
+  }
+
+  // NOTE(deanm): It seems to be much faster to compare index to 256 than
+  // to === null.  Not sure why, but CompareStub_EQ_STRICT shows up high in
+  // the profile, not sure if it's related to using a Uint8Array.
+  let trans = frame.transparent_index
+  if (trans === null)
+    trans = 256
+
+  // We are possibly just blitting to a portion of the entire frame.
+  // That is a subrect within the framerect, so the additional pixels
+  // must be skipped over after we finished a scanline.
+  const framewidth = frame.width
+  const framestride = canvas_width - framewidth
+  let xleft = framewidth
+
+  const opbeg = ((frame.y * canvas_width) + frame.x) * 4
+  const opend = ((frame.y + frame.height) * canvas_width + frame.x) * 4
+  let op = opbeg
+
+  let scanstride = framestride * 4
+
+  // Use scanstride to skip past the rows when interlacing.  This is skipping
+  // 7 rows for the first two passes, then 3 then 1.
+  if (frame.interlaced === true) {
+    scanstride += canvas_width * 4 * 7
+  }
+
+  let interlaceskip = 8
+
+  for (let i = 0; i < decoded; ++i) {
+    const index = index_stream[i]
+
+    if (xleft === 0) {
+      op += scanstride
+      xleft = framewidth
+      while (op >= opend) { // Passes can be empty on short frames.
+        scanstride = framestride * 4 + canvas_width * 4 * (interlaceskip - 1)
+        op = opbeg + (framewidth + framestride) * (interlaceskip << 1)
+        interlaceskip >>= 1
+      }
     }
 
-    // NOTE(deanm): It seems to be much faster to compare index to 256 than
-    // to === null.  Not sure why, but CompareStub_EQ_STRICT shows up high in
-    // the profile, not sure if it's related to using a Uint8Array.
-    let trans = frame.transparent_index
-    if (trans === null)
-      trans = 256
-
-    // We are possibly just blitting to a portion of the entire frame.
-    // That is a subrect within the framerect, so the additional pixels
-    // must be skipped over after we finished a scanline.
-    const framewidth = frame.width
-    const framestride = this.width - framewidth
-    let xleft = framewidth
-
-    const opbeg = ((frame.y * this.width) + frame.x) * 4
-    const opend = ((frame.y + frame.height) * this.width + frame.x) * 4
-    let op = opbeg
-
-    let scanstride = framestride * 4
-
-    // Use scanstride to skip past the rows when interlacing.  This is skipping
-    // 7 rows for the first two passes, then 3 then 1.
-    if (frame.interlaced === true) {
-      scanstride += this.width * 4 * 7
+    if (index === trans) {
+      op += 4
+    }
+    else {
+      const r = buf[palette_offset + index * 3]
+      const g = buf[palette_offset + index * 3 + 1]
+      const b = buf[palette_offset + index * 3 + 2]
+      pixels[op++] = r
+      pixels[op++] = g
+      pixels[op++] = b
+      pixels[op++] = 255
     }
 
-    let interlaceskip = 8
+    --xleft
+  }
+}
+
+/**
+ * Everything learned while walking the blocks of a GIF. Shared by `Reader`,
+ * which walks a whole file at once, and `GifParser`, which walks it as the
+ * bytes arrive.
+ */
+export interface ParseState {
+  width: number
+  height: number
+  global_palette_offset: number | null
+  global_palette_size: number | null
+  background_index: number
+  // Raw byte from the descriptor, 0 when not given.
+  pixel_aspect_ratio: number
+  loop_count: number | null
+  frames: Frame[]
+  comments: GifComment[]
+  applications: GifApplicationExtension[]
+  plain_texts: PlainText[]
+  // The most recent Graphics Control Extension values.
+  delay: number
+  transparent_index: number | null
+  disposal: number
+  // Set once the trailer has been seen.
+  ended: boolean
+  // Keep an image whose data is cut off instead of throwing.
+  lenient: boolean
+}
 
-    for (let i = 0, il = index_stream.length; i < il; ++i) {
-      const index = index_stream[i]
+export function createParseState(lenient: boolean = false): ParseState {
+  return {
+    width: 0,
+    height: 0,
+    global_palette_offset: null,
+    global_palette_size: null,
+    background_index: 0,
+    pixel_aspect_ratio: 0,
+    loop_count: null,
+    frames: [],
+    comments: [],
+    applications: [],
+    plain_texts: [],
+    delay: 0,
+    transparent_index: null,
+    disposal: 0, // 0 - No disposal specified.
+    ended: false,
+    lenient,
+  }
+}
 
-      if (xleft === 0) {
-        op += scanstride
-        xleft = framewidth
-        if (op >= opend) {
-          scanstride = framestride * 4 + this.width * 4 * (interlaceskip - 1)
-          op = opbeg + (framewidth + framestride) * (interlaceskip << 1)
-          interlaceskip >>= 1
+// Header, Logical Screen Descriptor and Global Color Table.  Returns the
+// offset of the first block after them.
+export function parseHeader(buf: Uint8Array, state: ParseState): number {
+  let p = 0
+
+  // - Header (GIF87a or GIF89a)
+  if (buf[p++] !== 0x47 || buf[p++] !== 0x49 || buf[p++] !== 0x46
+    || buf[p++] !== 0x38 || (buf[p++] + 1 & 0xFD) !== 0x38 || buf[p++] !== 0x61) {
+    throw new GifFormatError('Invalid GIF 87a/89a header.', 'invalid-header', { offset: 0 })
+  }
+
+  // - Logical Screen Descriptor
+  state.width = buf[p++] | buf[p++] << 8
+  state.height = buf[p++] | buf[p++] << 8
+  const pf0 = buf[p++] // <Packed Fields>
+  const global_palette_flag = pf0 >> 7
+  const num_global_colors_pow2 = pf0 & 0x7
+  const num_global_colors = 1 << (num_global_colors_pow2 + 1)
+
+  // The Logical Screen Descriptor has TWO trailer bytes after `pf0`:
+  //   bg_color_index (1) + pixel_aspect_ratio (1).
+  // Skipping only one used to silently land us into the middle of the
+  // global colour table — which made every decoded colour come back
+  // shifted by one byte. Fixed.
+  state.background_index = buf[p++]
+  state.pixel_aspect_ratio = buf[p++]
+
+  if (global_palette_flag) {
+    state.global_palette_offset = p
+    state.global_palette_size = num_global_colors
+    p += num_global_colors * 3 // Seek past palette.
+  }
+
+  return p
+}
+
+// Parse the single block starting at |p| into |state|, returning the offset
+// just past it.
+export function parseBlock(buf: Uint8Array, p: number, state: ParseState): number {
+  const start = p
+  switch (buf[p++]) {
+    case 0x21: // Graphics Control Extension Block
+      switch (buf[p++]) {
+        case 0xFF: // Application specific block
+          // Try if it's a Netscape block (with animation loop counter).
+          if (buf[p] !== 0x0B // 21 FF already read, check block size.
+            // NETSCAPE2.0
+            // eslint-disable-next-line style/no-mixed-operators
+            || buf[p + 1] === 0x4E && buf[p + 2] === 0x45 && buf[p + 3] === 0x54
+            && buf[p + 4] === 0x53 && buf[p + 5] === 0x43 && buf[p + 6] === 0x41
+            && buf[p + 7] === 0x50 && buf[p + 8] === 0x45 && buf[p + 9] === 0x32
+            && buf[p + 10] === 0x2E && buf[p + 11] === 0x30
+            // Sub-block
+            // eslint-disable-next-line style/no-mixed-operators
+            && buf[p + 12] === 0x03 && buf[p + 13] === 0x01 && buf[p + 16] === 0) {
+            p += 14
+            state.loop_count = buf[p++] | buf[p++] << 8
+            p++ // Skip terminator.
+          }
+          else {
+            const { data, end } = readSubBlocks(buf, p + 12)
+            state.applications.push(readApplicationExtension(buf, p + 1, data, end, state.frames.length))
+            p = end
+          }
+          break
+
+        case 0xF9: { // Graphics Control Extension
+          if (buf[p++] !== 0x4 || buf[p + 4] !== 0)
+            throw new GifFormatError('Invalid graphics extension block.', 'invalid-graphics-control', { offset: start })
+
+          const pf1 = buf[p++]
+
+          state.delay = buf[p++] | buf[p++] << 8
+          state.transparent_index = buf[p++]
+          if ((pf1 & 1) === 0)
+            state.transparent_index = null
+          state.disposal = pf1 >> 2 & 0x7
+          p++ // Skip terminator.
+          break
+        }
+
+        case 0xFE: { // Comment Extension.
+          const { data, end } = readSubBlocks(buf, p)
+          state.comments.push({
+            text: new TextDecoder().decode(data),
+            data,
+            frameIndex: state.frames.length,
+          })
+          p = end
+          break
+        }
+
+        case 0x01: { // Plain Text Extension
+          if (buf[p++] !== 12)
+            throw new GifFormatError('Invalid plain text extension block.', 'invalid-plain-text', { offset: start })
+
+          const x = buf[p++] | buf[p++] << 8
+          const y = buf[p++] | buf[p++] << 8
+          const w = buf[p++] | buf[p++] << 8
+          const h = buf[p++] | buf[p++] << 8
+          const cell_width = buf[p++]
+          const cell_height = buf[p++]
+          const foreground_index = buf[p++]
+          const background_index = buf[p++]
+          const { data, end } = readSubBlocks(buf, p)
+
+          let text = ''
+          for (let i = 0; i < data.length; ++i)
+            text += String.fromCharCode(data[i])
+
+          state.plain_texts.push({
+            x,
+            y,
+            width: w,
+            height: h,
+            cell_width,
+            cell_height,
+            foreground_index,
+            background_index,
+            text,
+            palette_offset: state.global_palette_offset,
+            palette_size: state.global_palette_size,
+            transparent_index: state.transparent_index,
+            delay: state.delay,
+            disposal: state.disposal,
+            frame_index: state.frames.length,
+          })
+
+          // The Graphics Control Extension belonged to this block, don't let
+          // it leak into the next image.
+          state.delay = 0
+          state.transparent_index = null
+          state.disposal = 0
+          p = end
+          break
         }
+
+        default:
+          throw new GifFormatError(
+            `Unknown graphic control label: 0x${buf[p - 1].toString(16)}`,
+            'unknown-extension',
+            { offset: start },
+          )
       }
+      break
 
-      if (index === trans) {
-        op += 4
+    case 0x2C: { // Image Descriptor.
+      const x = buf[p++] | buf[p++] << 8
+      const y = buf[p++] | buf[p++] << 8
+      const w = buf[p++] | buf[p++] << 8
+      const h = buf[p++] | buf[p++] << 8
+      const pf2 = buf[p++]
+      const local_palette_flag = pf2 >> 7
+      const interlace_flag = pf2 >> 6 & 1
+      const num_local_colors_pow2 = pf2 & 0x7
+      const num_local_colors = 1 << (num_local_colors_pow2 + 1)
+
+      let palette_offset = state.global_palette_offset
+      let palette_size = state.global_palette_size
+      let has_local_palette = false
+      if (local_palette_flag) {
+        has_local_palette = true
+        palette_offset = p // Override with local palette.
+        palette_size = num_local_colors
+        p += num_local_colors * 3 // Seek past palette.
       }
-      else {
-        const r = this.buffer[palette_offset + index * 3]
-        const g = this.buffer[palette_offset + index * 3 + 1]
-        const b = this.buffer[palette_offset + index * 3 + 2]
-        pixels[op++] = r
-        pixels[op++] = g
-        pixels[op++] = b
-        pixels[op++] = 255
+
+      // The LZW data starts after the local palette, not before it.
+      const data_offset = p
+      let partial = false
+
+      p++ // codesize
+      while (true) {
+        const block_size = buf[p++]
+        if (!(block_size >= 0)) {
+          if (!state.lenient || data_offset >= buf.length) {
+            throw new GifFormatError('Invalid block size', 'truncated', {
+              offset: p - 1,
+              frameIndex: state.frames.length,
+            })
+          }
+          // Cut off inside the image data, keep what did arrive.
+          partial = true
+          p = buf.length
+          break
+        }
+        if (block_size === 0)
+          break
+        p += block_size
       }
 
-      --xleft
+      state.frames.push({
+        x,
+        y,
+        width: w,
+        height: h,
+        has_local_palette,
+        palette_offset,
+        palette_size,
+        data_offset,
+        data_length: p - data_offset,
+        transparent_index: state.transparent_index,
+        interlaced: !!interlace_flag,
+        delay: state.delay,
+        disposal: state.disposal,
+        partial,
+      })
+      break
     }
+
+    case 0x3B: // Trailer Marker (end of file).
+      state.ended = true
+      break
+
+    case 0x00:
+      // Many in-the-wild GIFs include stray 0x00 bytes between blocks.
+      // The spec doesn't allow them, but every popular decoder skips
+      // them silently — match that to stay compatible.
+      break
+
+    default:
+      throw new GifFormatError(`Unknown gif block: 0x${buf[p - 1].toString(16)}`, 'unknown-block', { offset: start })
+  }
+
+  return p
+}
+
+// Offset just past the block starting at |p|, or -1 when the block isn't
+// complete within the first |length| bytes yet.  Only looks at the framing
+// (sizes and sub-block lengths); parseBlock() does the validation.
+export function blockEnd(buf: Uint8Array, p: number, length: number): number {
+  if (p >= length)
+    return -1
+
+  switch (buf[p]) {
+    case 0x21: // Extension: introducer, label, then sub-blocks.
+      return subBlocksEnd(buf, p + 2, length)
+
+    case 0x2C: { // Image Descriptor.
+      if (p + 10 > length)
+        return -1
+      const pf2 = buf[p + 9]
+      let q = p + 10
+      if (pf2 >> 7)
+        q += (1 << ((pf2 & 0x7) + 1)) * 3 // Local palette.
+      return subBlocksEnd(buf, q + 1, length) // Skip codesize.
+    }
+
+    default: // Trailer, stray 0x00 and unknown blocks are a single byte.
+      return p + 1
   }
 }
 
-export function readerLZWOutputIndexStream(code_stream: Buffer, p: number, output: Uint8Array, output_length: number): Uint8Array<ArrayBufferLike> | void {
+// |p| points at the 8 byte identifier, |end| just past the block.  XMP
+// doesn't use real sub-blocks: the packet is stored raw and followed by a
+// "magic trailer" that makes it walk like sub-blocks, so return the raw
+// bytes for it rather than the concatenation.
+function readApplicationExtension(
+  buf: Uint8Array,
+  p: number,
+  data: Uint8Array,
+  end: number,
+  frame_index: number,
+): GifApplicationExtension {
+  const identifier = String.fromCharCode(...buf.subarray(p, p + 8))
+  const auth_code = String.fromCharCode(...buf.subarray(p + 8, p + 11))
+
+  if (identifier === 'XMP Data' && auth_code === 'XMP' && hasXMPTrailer(buf, p + 11, end))
+    data = buf.slice(p + 11, end - XMP_TRAILER_SIZE)
+
+  return { identifier, authCode: auth_code, data, frameIndex: frame_index }
+}
+
+// 0x01, then 0xFF down to 0x00, then the block terminator.
+const XMP_TRAILER_SIZE = 258
+
+function hasXMPTrailer(buf: Uint8Array, start: number, end: number): boolean {
+  const t = end - XMP_TRAILER_SIZE
+  if (t < start || buf[t] !== 0x01 || buf[end - 1] !== 0)
+    return false
+  for (let i = 0; i < 256; ++i) {
+    if (buf[t + 1 + i] !== 0xFF - i)
+      return false
+  }
+  return true
+}
+
+// Put the rows of an interlaced index stream back in top to bottom order.
+export function deinterlace(index_stream: Uint8Array, width: number, height: number): Uint8Array {
+  const out = new Uint8Array(width * height)
+  let ip = 0
+  for (const [start, step] of [[0, 8], [4, 8], [2, 4], [1, 2]]) {
+    for (let y = start; y < height; y += step) {
+      out.set(index_stream.subarray(ip, ip + width), y * width)
+      ip += width
+    }
+  }
+  return out
+}
+
+// Index stream of |frame|, rows in top to bottom order.
+export function decodeFrameIndices(buf: Uint8Array, frame: Frame): Uint8Array {
+  const num_pixels = frame.width * frame.height
+  const index_stream = readerLZWOutputIndexStream(buf, frame.data_offset, new Uint8Array(num_pixels), num_pixels)
+  return frame.interlaced ? deinterlace(index_stream, frame.width, frame.height) : index_stream
+}
+
+export function readPalette(buf: Uint8Array, offset: number, size: number): number[] {
+  const palette: number[] = []
+  for (let i = 0; i < size; ++i) {
+    const o = offset + i * 3
+    palette.push(buf[o] << 16 | buf[o + 1] << 8 | buf[o + 2])
+  }
+  return palette
+}
+
+// The descriptor stores the ratio as (N + 15) / 64, with 0 meaning none.
+export function pixelAspectRatio(byte: number): number | null {
+  return byte === 0 ? null : (byte + 15) / 64
+}
+
+// Concatenate the data sub-blocks starting at |p|.  Returns the payload and
+// the offset just past the terminator.
+function readSubBlocks(buf: Uint8Array, p: number): { data: Uint8Array, end: number } {
+  let length = 0
+  let q = p
+  while (true) { // First pass: validate and size.
+    const block_size = buf[q++]
+    if (!(block_size >= 0))
+      throw new GifFormatError('Invalid block size', 'truncated', { offset: q - 1 })
+    if (block_size === 0)
+      break
+    length += block_size
+    q += block_size
+  }
+
+  const data = new Uint8Array(length)
+  let op = 0
+  while (true) {
+    const block_size = buf[p++]
+    if (block_size === 0)
+      break
+    data.set(buf.subarray(p, p + block_size), op)
+    op += block_size
+    p += block_size
+  }
+
+  return { data, end: p }
+}
+
+// Offset just past the terminator of the sub-blocks starting at |p|, or -1
+// when they run past |length|.
+export function subBlocksEnd(buf: Uint8Array, p: number, length: number): number {
+  while (p < length) {
+    const block_size = buf[p++]
+    if (block_size === 0)
+      return p
+    p += block_size
+  }
+  return -1
+}
+
+// Decode the LZW data at |p| into |output|.  Decoding stops early at the end
+// of the data or at a code that isn't in the table, leaving the rest of
+// |output| untouched.
+export function readerLZWOutputIndexStream(code_stream: Uint8Array, p: number, output: Uint8Array, output_length: number): Uint8Array<ArrayBufferLike> {
+  decodeIndexStream(code_stream, p, output, output_length)
+  return output
+}
+
+// Same as readerLZWOutputIndexStream(), returning the number of indices that
+// were actually decoded.
+function decodeIndexStream(code_stream: Uint8Array, p: number, output: Uint8Array, output_length: number): number {
   const min_code_size = code_stream[p++]
 
   const clear_code = 1 << min_code_size
@@ -390,8 +787,8 @@ export function readerLZWOutputIndexStream(code_stream: Buffer, p: number, outpu
   while (true) {
     // Read up to two bytes, making sure we always 12-bits for max sized code.
     while (cur_shift < 16) {
-      if (subblock_size === 0)
-        break // No more data to be read.
+      if (subblock_size === 0 || p >= code_stream.length)
+        break // No more data to be read (or the file is cut off).
 
       cur |= code_stream[p++] << cur_shift
       cur_shift += 8
@@ -432,6 +829,11 @@ export function readerLZWOutputIndexStream(code_stream: Buffer, p: number, outpu
     else if (code === eoi_code) {
       break
     }
+    else if (code > next_code || (code === next_code && prev_code === null)) {
+      // Not in the table yet, the data is corrupt.  Stop rather than
+      // decode garbage.
+      break
+    }
 
     // We have a similar situation as the decoder, where we want to store
     // variable length entries (code table entries), but we want to do in a
@@ -468,7 +870,7 @@ export function readerLZWOutputIndexStream(code_stream: Buffer, p: number, outpu
     if (op_end > output_length) {
       // eslint-disable-next-line no-console
       console.log('Warning, gif stream longer than expected.')
-      return
+      return op
     }
 
     // Already have the first byte from the chase, might as well write it fast.
@@ -509,5 +911,5 @@ export function readerLZWOutputIndexStream(code_stream: Buffer, p: number, outpu
     console.log('Warning, gif stream shorter than expected.')
   }
 
-  return output
+  return op
 }
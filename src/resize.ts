@@ -0,0 +1,342 @@
+/**
+ * Resizing — scales a whole animation to a new logical screen size.
+ *
+ *   - **`nearest`** works on the index streams directly: every frame's
+ *     rectangle is mapped onto the new screen and its indices are sampled,
+ *     so palettes, transparency and disposal carry over untouched. Exact
+ *     colours, for pixel art.
+ *
+ *   - **`bilinear`** and **`lanczos`** composite every frame with the reader,
+ *     resample the full canvas (with premultiplied alpha, so transparent
+ *     pixels don't bleed dark fringes) and encode the result again through
+ *     `encodeAnimation()`, which keeps the colours exact when they fit a
+ *     palette and requantizes otherwise. Shrinking widens the kernel to
+ *     cover every source pixel, so thumbnails don't alias.
+ *
+ * Delays, the loop count, the pixel aspect ratio, comments and application
+ * extensions (XMP and the like) are kept as they are. Plain text is dropped:
+ * its character cells don't scale with the picture. Smooth filters write
+ * full frames; run `optimize()` on the result to get small deltas back.
+ */
+
+import type { DitherMethod } from './dither'
+import type { AnimationFrame } from './encode'
+import type { QuantizeMethod } from './quantize'
+import { Buffer } from 'node:buffer'
+import { encodeAnimation } from './encode'
+import { GifEncodeError, GifFormatError, GifLimitError } from './errors'
+import { decodeFrameIndices, Reader } from './reader'
+import { Writer } from './writer'
+
+export type ResizeFilter = 'nearest' | 'bilinear' | 'lanczos'
+
+export interface ResizeOptions {
+  /** New logical screen width, 1 .. 65535. */
+  width: number
+  /** New logical screen height, 1 .. 65535. */
+  height: number
+  /**
+   * Resampling filter. `'nearest'` keeps every palette exactly; the others
+   * look smoother and requantize when needed. Default `'lanczos'`.
+   */
+  filter?: ResizeFilter
+  /** Palette budget when requantizing, 2 .. 256. Default `256`. */
+  maxColors?: number
+  /** Quantizer used when colours have to be reduced. Default `'median-cut'`. */
+  quantize?: QuantizeMethod
+  /** Dithering applied when colours have to be reduced. Default `'none'`. */
+  dither?: DitherMethod
+}
+
+interface Kernel {
+  /** Radius in source pixels at 1:1 scale. */
+  support: number
+  weight: (x: number) => number
+}
+
+const KERNELS: Record<Exclude<ResizeFilter, 'nearest'>, Kernel> = {
+  bilinear: {
+    support: 1,
+    weight: x => Math.max(0, 1 - Math.abs(x)),
+  },
+  lanczos: {
+    support: 3,
+    weight: x => (Math.abs(x) < 3 ? sinc(x) * sinc(x / 3) : 0),
+  },
+}
+
+/** Source pixels that make up one destination pixel, and their weights. */
+interface Contribution {
+  start: number
+  weights: Float32Array
+}
+
+/**
+ * Scale a GIF to `width` × `height`. Returns the encoded bytes.
+ */
+export function resize(input: Uint8Array, options: ResizeOptions): Uint8Array {
+  const { width, height } = options
+  if (!Number.isInteger(width) || !Number.isInteger(height)
+    || width <= 0 || height <= 0 || width > 65535 || height > 65535) {
+    throw new GifLimitError('Width/Height invalid.', 'dimensions-out-of-range')
+  }
+
+  const buf = Buffer.from(input)
+  const reader = new Reader(buf)
+  const filter = options.filter ?? 'lanczos'
+
+  // Nothing to resample in a file without frames; the index path just
+  // writes the new screen.
+  if (filter === 'nearest' || reader.numFrames() === 0)
+    return resizeIndexed(buf, reader, width, height)
+
+  const kernel = KERNELS[filter]
+  if (kernel === undefined) {
+    throw new GifEncodeError(`Unknown resize filter: ${String(filter)}`, 'invalid-option')
+  }
+  return resizeComposited(reader, width, height, kernel, options)
+}
+
+// ───────────────────────────────────────────────────────────────────────────
+// Nearest neighbour on index streams
+// ───────────────────────────────────────────────────────────────────────────
+
+/**
+ * Every frame is sampled on the same grid the whole screen would be, so
+ * composing the resized frames gives exactly the resized composite of the
+ * original — disposal rectangles included.
+ */
+function resizeIndexed(buf: Buffer, reader: Reader, width: number, height: number): Uint8Array {
+  const screenWidth = reader.getWidth()
+  const screenHeight = reader.getHeight()
+  const mapX = nearestMap(screenWidth, width)
+  const mapY = nearestMap(screenHeight, height)
+
+  const writer = new Writer(null, width, height, {
+    palette: reader.getGlobalPalette() ?? undefined,
+    loop: reader.getLoopCount(),
+    pixelAspectRatio: reader.getPixelAspectRatio(),
+    version: 'auto',
+  })
+
+  // Every frame keeps its place, so what sits between them can too.
+  const comments = reader.getComments()
+  const applications = reader.getApplicationExtensions()
+  const writeExtensions = (frameIndex: number): void => {
+    for (const app of applications) {
+      if (app.frameIndex === frameIndex) writer.addApplicationExtension(app.identifier, app.authCode, app.data)
+    }
+    for (const comment of comments) {
+      if (comment.frameIndex === frameIndex) writer.addComment(comment.data)
+    }
+  }
+
+  for (let i = 0; i < reader.numFrames(); i++) {
+    writeExtensions(i)
+    const info = reader.frameInfo(i)
+    if (reader.getFramePalette(i) === null) {
+      throw new GifFormatError('No palette found for frame', 'missing-palette', { frameIndex: i })
+    }
+    const palette = info.has_local_palette ? reader.getFramePalette(i)! : undefined
+
+    // Frames hanging off the screen are clipped to it first.
+    const [x0, x1] = mappedRange(mapX, info.x, Math.min(info.x + info.width, screenWidth))
+    const [y0, y1] = mappedRange(mapY, info.y, Math.min(info.y + info.height, screenHeight))
+
+    if (x0 >= x1 || y0 >= y1) {
+      // Shrunk to nothing. Keep its time slot with an invisible pixel.
+      writer.addFrame(0, 0, 1, 1, new Uint8Array(1), { palette, delay: info.delay, disposal: 1, transparent: 0 })
+      continue
+    }
+
+    const indices = decodeFrameIndices(buf, info)
+    const w = x1 - x0
+    const h = y1 - y0
+    const out = new Uint8Array(w * h)
+    for (let y = 0; y < h; y++) {
+      const row = (mapY[y0 + y] - info.y) * info.width - info.x
+      for (let x = 0; x < w; x++)
+        out[y * w + x] = indices[row + mapX[x0 + x]]
+    }
+
+    writer.addFrame(x0, y0, w, h, out, {
+      palette,
+      delay: info.delay,
+      disposal: info.disposal,
+      transparent: info.transparent_index ?? undefined,
+      interlaced: info.interlaced,
+    })
+  }
+  writeExtensions(reader.numFrames())
+
+  writer.end()
+  return writer.toUint8Array()
+}
+
+/** Source pixel each destination pixel samples, with pixel centres lined up. */
+function nearestMap(srcSize: number, dstSize: number): Int32Array {
+  const map = new Int32Array(dstSize)
+  for (let d = 0; d < dstSize; d++)
+    map[d] = Math.min(srcSize - 1, Math.floor((d + 0.5) * srcSize / dstSize))
+  return map
+}
+
+/** Destination range `[start, end)` whose samples fall in `[from, to)`. */
+function mappedRange(map: Int32Array, from: number, to: number): [number, number] {
+  let start = 0
+  while (start < map.length && map[start] < from) start++
+  let end = start
+  while (end < map.length && map[end] < to) end++
+  return [start, end]
+}
+
+// ───────────────────────────────────────────────────────────────────────────
+// Filtered resampling of composited frames
+// ───────────────────────────────────────────────────────────────────────────
+
+function resizeComposited(
+  reader: Reader,
+  width: number,
+  height: number,
+  kernel: Kernel,
+  options: ResizeOptions,
+): Uint8Array {
+  const srcWidth = reader.getWidth()
+  const srcHeight = reader.getHeight()
+  const columns = contributions(srcWidth, width, kernel)
+  const rows = contributions(srcHeight, height, kernel)
+
+  const canvas = new Uint8Array(srcWidth * srcHeight * 4)
+  const frames: AnimationFrame[] = []
+  for (let i = 0; i < reader.numFrames(); i++) {
+    reader.renderFrame(i, canvas)
+    frames.push({
+      rgba: resample(canvas, srcWidth, srcHeight, width, height, columns, rows),
+      delay: reader.frameInfo(i).delay * 10,
+    })
+  }
+
+  return encodeAnimation({
+    width,
+    height,
+    frames,
+    loop: reader.getLoopCount(),
+    pixelAspectRatio: reader.getPixelAspectRatio(),
+    comments: reader.getComments(),
+    applications: reader.getApplicationExtensions(),
+    maxColors: options.maxColors,
+    quantize: options.quantize,
+    dither: options.dither,
+  })
+}
+
+/** Filter weights for every destination pixel along one axis. */
+function contributions(srcSize: number, dstSize: number, kernel: Kernel): Contribution[] {
+  const scale = srcSize / dstSize
+  // When shrinking, stretch the kernel over the source pixels it replaces.
+  const stretch = Math.max(1, scale)
+  const support = kernel.support * stretch
+
+  const result: Contribution[] = []
+  for (let d = 0; d < dstSize; d++) {
+    const center = (d + 0.5) * scale
+    const start = Math.max(0, Math.floor(center - support))
+    const end = Math.min(srcSize, Math.ceil(center + support))
+
+    const weights = new Float32Array(end - start)
+    let sum = 0
+    for (let s = start; s < end; s++) {
+      const w = kernel.weight((s + 0.5 - center) / stretch)
+      weights[s - start] = w
+      sum += w
+    }
+
+    // Both kernels peak at the centre, which is always in range: sum > 0.
+    for (let k = 0; k < weights.length; k++) weights[k] /= sum
+    result.push({ start, weights })
+  }
+  return result
+}
+
+/** Separable resample of an RGBA image, horizontal pass then vertical. */
+function resample(
+  rgba: Uint8Array,
+  srcWidth: number,
+  srcHeight: number,
+  dstWidth: number,
+  dstHeight: number,
+  columns: Contribution[],
+  rows: Contribution[],
+): Uint8Array {
+  const premultiplied = new Float32Array(srcWidth * srcHeight * 4)
+  for (let o = 0; o < premultiplied.length; o += 4) {
+    const a = rgba[o + 3] / 255
+    premultiplied[o] = rgba[o] * a
+    premultiplied[o + 1] = rgba[o + 1] * a
+    premultiplied[o + 2] = rgba[o + 2] * a
+    premultiplied[o + 3] = rgba[o + 3]
+  }
+
+  const horizontal = new Float32Array(dstWidth * srcHeight * 4)
+  for (let y = 0; y < srcHeight; y++) {
+    for (let x = 0; x < dstWidth; x++) {
+      const { start, weights } = columns[x]
+      let r = 0
+      let g = 0
+      let b = 0
+      let a = 0
+      for (let k = 0; k < weights.length; k++) {
+        const i = (y * srcWidth + start + k) * 4
+        const w = weights[k]
+        r += premultiplied[i] * w
+        g += premultiplied[i + 1] * w
+        b += premultiplied[i + 2] * w
+        a += premultiplied[i + 3] * w
+      }
+      const o = (y * dstWidth + x) * 4
+      horizontal[o] = r
+      horizontal[o + 1] = g
+      horizontal[o + 2] = b
+      horizontal[o + 3] = a
+    }
+  }
+
+  const out = new Uint8Array(dstWidth * dstHeight * 4)
+  for (let y = 0; y < dstHeight; y++) {
+    const { start, weights } = rows[y]
+    for (let x = 0; x < dstWidth; x++) {
+      let r = 0
+      let g = 0
+      let b = 0
+      let a = 0
+      for (let k = 0; k < weights.length; k++) {
+        const i = ((start + k) * dstWidth + x) * 4
+        const w = weights[k]
+        r += horizontal[i] * w
+        g += horizontal[i + 1] * w
+        b += horizontal[i + 2] * w
+        a += horizontal[i + 3] * w
+      }
+
+      const o = (y * dstWidth + x) * 4
+      const alpha = clamp(a)
+      if (alpha === 0) continue
+      // Lanczos lobes can overshoot; clamp after un-premultiplying.
+      out[o] = clamp(r * 255 / a)
+      out[o + 1] = clamp(g * 255 / a)
+      out[o + 2] = clamp(b * 255 / a)
+      out[o + 3] = alpha
+    }
+  }
+  return out
+}
+
+function sinc(x: number): number {
+  if (x === 0) return 1
+  const px = Math.PI * x
+  return Math.sin(px) / px
+}
+
+function clamp(v: number): number {
+  return v <= 0 ? 0 : v >= 255 ? 255 : Math.round(v)
+}
@@ -0,0 +1,270 @@
+/**
+ * Sprite sheets — lay an animation out as a grid of frames and back.
+ *
+ * `toSpriteSheet()` composites every frame and packs them left to right,
+ * top to bottom, into one RGBA or indexed atlas. `fromSpriteSheet()` cuts
+ * the frames back out and encodes an animation.
+ *
+ * The layout is the JSON TexturePacker writes (the array flavour), with a
+ * `duration` in milliseconds per frame as Aseprite adds it, so sheets can
+ * go to and come from the usual game engine tools. When reading, the hash
+ * flavour (frames keyed by file name), trimmed frames and frames stored
+ * rotated are understood as well.
+ */
+
+import type { QuantizeMethod } from './quantize'
+import type { Reader } from './reader'
+import { encodeAnimation } from './encode'
+import { GifEncodeError, GifLimitError } from './errors'
+import { quantize } from './quantize'
+import { Writer } from './writer'
+
+export type SpriteSheetFormat = 'rgba' | 'indexed'
+
+export interface SpriteSheetOptions {
+  /** Frames per row. Default the smallest count that makes the grid square or wider. */
+  columns?: number
+  /** Transparent pixels around and between frames. Default `0`. */
+  padding?: number
+  /**
+   * `'rgba'` for 4 bytes per pixel, `'indexed'` for one palette index per
+   * pixel with a single palette for the whole sheet. Default `'rgba'`.
+   */
+  format?: SpriteSheetFormat
+  /** Quantizer for indexed sheets with more than 256 colours. Default `'median-cut'`. */
+  quantize?: QuantizeMethod
+  /** File name recorded in `meta.image`. Default `'spritesheet.png'`. */
+  image?: string
+}
+
+export interface SpriteSheetRect {
+  x: number
+  y: number
+  w: number
+  h: number
+}
+
+export interface SpriteSheetFrame {
+  filename: string
+  /** Where the frame is on the sheet, unrotated size. */
+  frame: SpriteSheetRect
+  /** Stored turned 90° clockwise, so it covers `frame.h` × `frame.w` on the sheet. */
+  rotated: boolean
+  trimmed: boolean
+  /** Where the stored pixels go inside the original frame. */
+  spriteSourceSize: SpriteSheetRect
+  /** Size of the original frame. */
+  sourceSize: { w: number, h: number }
+  /** Milliseconds. */
+  duration?: number
+}
+
+export interface SpriteSheetLayout {
+  /** Frames in order, or keyed by file name. */
+  frames: SpriteSheetFrame[] | Record<string, SpriteSheetFrame>
+  meta: {
+    app?: string
+    version?: string
+    image?: string
+    format?: string
+    size: { w: number, h: number }
+    scale?: string
+  }
+}
+
+export interface SpriteSheet {
+  width: number
+  height: number
+  /** `width * height * 4` bytes of RGBA, or `width * height` palette indices. */
+  pixels: Uint8Array
+  /** Palette for indexed sheets, `null` for RGBA. */
+  palette: number[] | null
+  /** Index of transparent pixels in an indexed sheet, if there are any. */
+  transparent: number | null
+  layout: SpriteSheetLayout
+}
+
+export interface FromSpriteSheetOptions {
+  /** Treat `pixels` as palette indices into this palette instead of RGBA. */
+  palette?: number[]
+  /**
+   * Transparent index for indexed pixels. Required when a frame is trimmed
+   * or smaller than the largest one, to fill the space around it.
+   */
+  transparent?: number
+  /** Delay in milliseconds for frames without a `duration`. Default `100`. */
+  delay?: number
+  /** Number of extra loops, `0` for forever, `null` to play once. Default `0`. */
+  loop?: number | null
+}
+
+/**
+ * Composite every frame of `reader` and pack them into a sprite sheet.
+ */
+export function toSpriteSheet(reader: Reader, options: SpriteSheetOptions = {}): SpriteSheet {
+  const numFrames = reader.numFrames()
+  const frameWidth = reader.getWidth()
+  const frameHeight = reader.getHeight()
+  const columns = options.columns ?? Math.max(1, Math.ceil(Math.sqrt(numFrames)))
+  const padding = options.padding ?? 0
+  const format = options.format ?? 'rgba'
+  if (format !== 'rgba' && format !== 'indexed') {
+    throw new GifEncodeError(`Unknown sprite sheet format: ${String(format)}`, 'invalid-option')
+  }
+  if (!Number.isInteger(columns) || columns < 1) {
+    throw new GifLimitError('Sprite sheet needs at least one column.', 'column-count-out-of-range')
+  }
+  if (!Number.isInteger(padding) || padding < 0) {
+    throw new GifLimitError('Sprite sheet padding must be a whole number of pixels.', 'padding-out-of-range')
+  }
+
+  const rows = Math.ceil(numFrames / columns)
+  const width = Math.min(columns, Math.max(1, numFrames)) * (frameWidth + padding) + padding
+  const height = rows * (frameHeight + padding) + padding
+
+  const rgba = new Uint8Array(width * height * 4)
+  const frames: SpriteSheetFrame[] = []
+  for (let i = 0; i < numFrames; i++) {
+    const x = padding + (i % columns) * (frameWidth + padding)
+    const y = padding + Math.floor(i / columns) * (frameHeight + padding)
+    const canvas = reader.renderFrame(i)
+    for (let row = 0; row < frameHeight; row++)
+      rgba.set(canvas.subarray(row * frameWidth * 4, (row + 1) * frameWidth * 4), ((y + row) * width + x) * 4)
+
+    frames.push({
+      filename: `frame_${i}`,
+      frame: { x, y, w: frameWidth, h: frameHeight },
+      rotated: false,
+      trimmed: false,
+      spriteSourceSize: { x: 0, y: 0, w: frameWidth, h: frameHeight },
+      sourceSize: { w: frameWidth, h: frameHeight },
+      duration: reader.frameInfo(i).delay * 10,
+    })
+  }
+
+  const layout: SpriteSheetLayout = {
+    frames,
+    meta: {
+      app: 'ts-gif',
+      version: '1.0',
+      image: options.image ?? 'spritesheet.png',
+      format: format === 'rgba' ? 'RGBA8888' : 'INDEXED8',
+      size: { w: width, h: height },
+      scale: '1',
+    },
+  }
+
+  if (format === 'rgba')
+    return { width, height, pixels: rgba, palette: null, transparent: null, layout }
+
+  const q = quantize(rgba, width, height, { method: options.quantize })
+  return { width, height, pixels: q.indices, palette: q.palette, transparent: q.transparent ?? null, layout }
+}
+
+/**
+ * Cut the frames described by `layout` out of a sheet and encode them as an
+ * animation. `pixels` is RGBA unless `options.palette` is given.
+ *
+ * Indexed sheets go straight to `Writer` with the sheet's palette; RGBA
+ * sheets go through `encodeAnimation()`, which picks the palettes.
+ */
+export function fromSpriteSheet(pixels: Uint8Array, layout: SpriteSheetLayout, options: FromSpriteSheetOptions = {}): Uint8Array {
+  const frames = Array.isArray(layout.frames) ? layout.frames : Object.values(layout.frames)
+  if (frames.length === 0) {
+    throw new GifEncodeError('At least one frame is required.', 'no-frames')
+  }
+
+  const sheetWidth = layout.meta.size.w
+  const sheetHeight = layout.meta.size.h
+  const channels = options.palette === undefined ? 4 : 1
+  if (pixels.length < sheetWidth * sheetHeight * channels) {
+    throw new GifEncodeError('Sprite sheet: not enough pixels for the sheet size.', 'not-enough-pixels')
+  }
+
+  // Frames of different sizes share the largest one's screen, top left.
+  const width = Math.max(...frames.map(f => f.sourceSize.w))
+  const height = Math.max(...frames.map(f => f.sourceSize.h))
+  // RGBA canvases start see-through. Indexed ones need an index for that,
+  // or the space around a trimmed frame would be drawn in colour 0.
+  if (channels === 1 && options.transparent === undefined
+    && frames.some(f => f.trimmed || f.sourceSize.w < width || f.sourceSize.h < height)) {
+    throw new GifEncodeError('Sprite sheet: trimmed frames in an indexed sheet need a transparent index.', 'invalid-option')
+  }
+  const fill = channels === 1 ? options.transparent ?? 0 : 0
+  const delays = frames.map(f => f.duration ?? options.delay ?? 100)
+
+  const canvases = frames.map((f, i) => {
+    const canvas = new Uint8Array(width * height * channels).fill(fill)
+    sliceFrame(pixels, sheetWidth, sheetHeight, channels, f, canvas, width, i)
+    return canvas
+  })
+
+  const loop = options.loop === undefined ? 0 : options.loop
+
+  if (options.palette === undefined) {
+    return encodeAnimation({
+      width,
+      height,
+      frames: canvases.map((rgba, i) => ({ rgba, delay: delays[i] })),
+      loop,
+    })
+  }
+
+  const writer = new Writer(null, width, height, {
+    palette: options.palette,
+    loop: frames.length > 1 ? loop : null,
+  })
+  canvases.forEach((indices, i) => {
+    writer.addFrame(0, 0, width, height, indices, {
+      delay: Math.round(delays[i] / 10),
+      // Every frame is a whole picture: clear it, or its pixels would show
+      // through the next frame's transparent ones.
+      disposal: options.transparent === undefined ? 1 : 2,
+      transparent: options.transparent,
+    })
+  })
+  writer.end()
+  return writer.toUint8Array()
+}
+
+// ───────────────────────────────────────────────────────────────────────────
+// Helpers
+// ───────────────────────────────────────────────────────────────────────────
+
+/** Copy one frame from the sheet into a `canvasWidth` wide canvas. */
+function sliceFrame(
+  pixels: Uint8Array,
+  sheetWidth: number,
+  sheetHeight: number,
+  channels: number,
+  sprite: SpriteSheetFrame,
+  canvas: Uint8Array,
+  canvasWidth: number,
+  frameIndex: number,
+): void {
+  const { x, y, w, h } = sprite.frame
+  // Rotated frames take up h × w pixels on the sheet.
+  const sheetW = sprite.rotated ? h : w
+  const sheetH = sprite.rotated ? w : h
+  if (x < 0 || y < 0 || x + sheetW > sheetWidth || y + sheetH > sheetHeight) {
+    throw new GifLimitError('Sprite frame lies outside the sheet.', 'dimensions-out-of-range', { frameIndex })
+  }
+
+  const offsetX = sprite.spriteSourceSize.x
+  const offsetY = sprite.spriteSourceSize.y
+  if (offsetX < 0 || offsetY < 0 || offsetX + w > sprite.sourceSize.w || offsetY + h > sprite.sourceSize.h) {
+    throw new GifLimitError('Sprite frame lies outside its source size.', 'dimensions-out-of-range', { frameIndex })
+  }
+  for (let row = 0; row < h; row++) {
+    for (let col = 0; col < w; col++) {
+      // Turned clockwise: column `col` of the sprite is row `col` on the
+      // sheet, read right to left.
+      const from = sprite.rotated
+        ? (y + col) * sheetWidth + x + (h - 1 - row)
+        : (y + row) * sheetWidth + x + col
+      const to = (offsetY + row) * canvasWidth + offsetX + col
+      for (let c = 0; c < channels; c++)
+        canvas[to * channels + c] = pixels[from * channels + c]
+    }
+  }
+}
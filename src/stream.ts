@@ -0,0 +1,179 @@
+/**
+ * Streaming writer — pushes each GIF block to a stream as soon as it's built.
+ *
+ * The actual encoding is done by a regular growable `Writer`; after every
+ * step the bytes it produced are handed to the stream and its position is
+ * rewound to zero, so memory stays bounded by one frame no matter how long
+ * the animation gets. The output is byte-identical to the buffered path.
+ *
+ * Works with web `WritableStream`s and Node `Writable`s. Awaiting
+ * `addFrame()` waits for the stream to accept the bytes (backpressure).
+ * The `add*()` methods report errors, including being called after `end()`,
+ * by rejecting rather than throwing. `version: 'auto'` isn't supported: the
+ * header is sent before anything that would decide it.
+ */
+
+import type { Writable } from 'node:stream'
+import type { FrameOptions, PlainTextOptions, WriterOptions } from './types'
+import { GifEncodeError } from './errors'
+import { Writer } from './writer'
+
+/** Anything `StreamWriter` can write to. */
+export type GifOutputStream = WritableStream<Uint8Array> | Writable
+
+interface ByteSink {
+  write: (chunk: Uint8Array) => Promise<void>
+  close: () => Promise<void>
+}
+
+export class StreamWriter {
+  private writer: Writer
+  private sink: ByteSink
+  private pending: Promise<void>
+  private bytesWritten: number = 0
+  private ended: boolean = false
+
+  constructor(stream: GifOutputStream, width: number, height: number, options: WriterOptions = {}) {
+    // Header, logical screen descriptor, global palette and loop block are
+    // all written by the Writer constructor; send them right away.  That
+    // leaves no way to upgrade the header later, so 'auto' can't work here.
+    if (options.version === 'auto') {
+      throw new GifEncodeError('StreamWriter sends the header first and can\'t pick the version later, use \'87a\' or \'89a\'.', 'invalid-option')
+    }
+    this.writer = new Writer(null, width, height, options)
+    this.sink = toSink(stream)
+    this.pending = Promise.resolve()
+    this.flush()
+  }
+
+  /**
+   * Encode a frame and send it to the stream. Same arguments as
+   * `Writer.addFrame()`; resolves once the stream has accepted the bytes.
+   */
+  public async addFrame(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    indexedPixels: Uint8Array,
+    options: FrameOptions = {},
+  ): Promise<void> {
+    if (this.ended) {
+      throw new GifEncodeError('Stream writer already ended.', 'writer-ended')
+    }
+
+    this.writer.addFrame(x, y, width, height, indexedPixels, options)
+    return this.flush()
+  }
+
+  /** Write a Plain Text Extension, see `Writer.addPlainText()`. */
+  public async addPlainText(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    text: string,
+    options: PlainTextOptions = {},
+  ): Promise<void> {
+    if (this.ended) {
+      throw new GifEncodeError('Stream writer already ended.', 'writer-ended')
+    }
+
+    this.writer.addPlainText(x, y, width, height, text, options)
+    return this.flush()
+  }
+
+  /** Write a Comment Extension, see `Writer.addComment()`. */
+  public async addComment(text: string | Uint8Array): Promise<void> {
+    if (this.ended) {
+      throw new GifEncodeError('Stream writer already ended.', 'writer-ended')
+    }
+
+    this.writer.addComment(text)
+    return this.flush()
+  }
+
+  /** Write an Application Extension, see `Writer.addApplicationExtension()`. */
+  public async addApplicationExtension(identifier: string, authCode: string, data: Uint8Array): Promise<void> {
+    if (this.ended) {
+      throw new GifEncodeError('Stream writer already ended.', 'writer-ended')
+    }
+
+    this.writer.addApplicationExtension(identifier, authCode, data)
+    return this.flush()
+  }
+
+  /** Write the trailer and close the stream. */
+  public end(): Promise<void> {
+    if (!this.ended) {
+      this.ended = true
+      this.writer.end()
+      this.flush()
+      this.pending = this.pending.then(() => this.sink.close())
+      this.pending.catch(() => {})
+    }
+    return this.pending
+  }
+
+  /** Total number of bytes handed to the stream so far. */
+  public getBytesWritten(): number {
+    return this.bytesWritten
+  }
+
+  // Hand everything the writer produced since the last flush to the stream,
+  // then rewind the writer so its buffer gets reused for the next block.
+  // Writes are chained so they reach the stream in order even if the
+  // caller doesn't await each addFrame().
+  private flush(): Promise<void> {
+    const chunk = this.writer.toUint8Array()
+    this.writer.setOutputBufferPosition(0)
+    this.bytesWritten += chunk.length
+
+    this.pending = this.pending.then(() => this.sink.write(chunk))
+    // Keep an early stream error from surfacing as an unhandled rejection
+    // before the caller gets a chance to await it.
+    this.pending.catch(() => {})
+    return this.pending
+  }
+}
+
+function toSink(stream: GifOutputStream): ByteSink {
+  if (typeof (stream as WritableStream<Uint8Array>).getWriter === 'function') {
+    const writer = (stream as WritableStream<Uint8Array>).getWriter()
+    return {
+      write: async (chunk) => {
+        await writer.ready
+        await writer.write(chunk)
+      },
+      close: () => writer.close(),
+    }
+  }
+
+  const node = stream as Writable
+  return {
+    write: chunk => new Promise<void>((resolve, reject) => {
+      if (node.write(chunk)) {
+        resolve()
+        return
+      }
+      // Buffer is full: wait for it to drain, or for the stream to fail.
+      const onDrain = () => {
+        node.off('error', onError)
+        resolve()
+      }
+      const onError = (err: Error) => {
+        node.off('drain', onDrain)
+        reject(err)
+      }
+      node.once('drain', onDrain)
+      node.once('error', onError)
+    }),
+    close: () => new Promise<void>((resolve, reject) => {
+      node.once('error', reject)
+      node.end(() => {
+        node.off('error', reject)
+        resolve()
+      })
+    }),
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * Timeline editing — change when and in which order frames are shown.
+ *
+ *   - **`scaleDelays`** and **`setFrameRate`** only touch delays. Every
+ *     frame's index stream is written back as it was, so they are lossless.
+ *     Delays are rounded along the running total, so the animation's length
+ *     stays as close to exact as hundredths of a second allow (30 fps comes
+ *     out as 3, 4, 3, 3, 4, 3 ...).
+ *
+ *   - **`reverse`**, **`boomerang`** and **`trim`** can't reuse the frames
+ *     as stored: a partial frame only makes sense on top of the frames
+ *     before it, and disposal depends on what comes next. They composite
+ *     every frame with the reader and encode the full canvases again through
+ *     `encodeAnimation()`, which keeps the colours exact when they fit a
+ *     palette and requantizes otherwise. Run `optimize()` on the result to
+ *     get small deltas back.
+ *
+ * The loop count is always kept. The lossless two also keep comments,
+ * application extensions and plain text where they were. The others start
+ * from fresh canvases and drop them.
+ */
+
+import type { AnimationFrame } from './encode'
+import { Buffer } from 'node:buffer'
+import { encodeAnimation } from './encode'
+import { GifFormatError, GifLimitError } from './errors'
+import { decodeFrameIndices, Reader } from './reader'
+import { Writer } from './writer'
+
+export interface TrimOptions {
+  /** Start of the kept range in milliseconds. Default `0`. */
+  start?: number
+  /** End of the kept range in milliseconds. Default the end of the animation. */
+  end?: number
+}
+
+/**
+ * Multiply every delay by `factor`: `2` plays at half speed, `0.5` at
+ * double speed.
+ */
+export function scaleDelays(input: Uint8Array, factor: number): Uint8Array {
+  if (!Number.isFinite(factor) || factor <= 0) {
+    throw new GifLimitError('Delay factor must be a positive number.', 'delay-factor-out-of-range')
+  }
+  return retime(input, delays => delays.map(delay => delay * factor))
+}
+
+/**
+ * Give every frame the same delay, `fps` frames per second (up to 100, the
+ * finest GIF can time).
+ */
+export function setFrameRate(input: Uint8Array, fps: number): Uint8Array {
+  if (!Number.isFinite(fps) || fps <= 0 || fps > 100) {
+    throw new GifLimitError('Frame rate must be above 0 and at most 100.', 'frame-rate-out-of-range')
+  }
+  return retime(input, delays => delays.map(() => 100 / fps))
+}
+
+/**
+ * Play the animation backwards.
+ */
+export function reverse(input: Uint8Array): Uint8Array {
+  const reader = new Reader(Buffer.from(input))
+  return encodeFrames(reader, renderAll(reader).reverse())
+}
+
+/**
+ * Play forwards and then backwards. The first and last frames aren't
+ * repeated at the turns, so a looping boomerang doesn't stutter.
+ */
+export function boomerang(input: Uint8Array): Uint8Array {
+  const reader = new Reader(Buffer.from(input))
+  const frames = renderAll(reader)
+  return encodeFrames(reader, frames.concat(frames.slice(1, -1).reverse()))
+}
+
+/**
+ * Keep only what is shown between `start` and `end`. Frames cut by either
+ * end get shortened to the part inside the range.
+ */
+export function trim(input: Uint8Array, options: TrimOptions): Uint8Array {
+  const reader = new Reader(Buffer.from(input))
+  const start = options.start ?? 0
+  const end = options.end ?? Infinity
+  if (Number.isNaN(start) || Number.isNaN(end) || start < 0 || end <= start) {
+    throw new GifLimitError('Trim range must satisfy 0 <= start < end.', 'trim-range-out-of-range')
+  }
+
+  const frames: AnimationFrame[] = []
+  let time = 0
+  for (let i = 0; i < reader.numFrames(); i++) {
+    const from = time
+    const to = time + reader.frameInfo(i).delay * 10
+    time = to
+    // Zero-delay frames count as shown at their start time.
+    const shown = from === to ? from >= start && from < end : to > start && from < end
+    if (!shown) continue
+
+    frames.push({ rgba: reader.renderFrame(i), delay: Math.min(to, end) - Math.max(from, start) })
+  }
+
+  if (frames.length === 0) {
+    throw new GifLimitError('Trim range contains no frames.', 'trim-range-out-of-range')
+  }
+  return encodeFrames(reader, frames)
+}
+
+// ───────────────────────────────────────────────────────────────────────────
+// Helpers
+// ───────────────────────────────────────────────────────────────────────────
+
+/**
+ * Write every frame back unchanged apart from its delay. `retimed` maps the
+ * original delays to new ones; both in hundredths of a second, the new ones
+ * not yet rounded.
+ */
+function retime(input: Uint8Array, retimed: (delays: number[]) => number[]): Uint8Array {
+  const buf = Buffer.from(input)
+  const reader = new Reader(buf)
+  const frames = Array.from({ length: reader.numFrames() }, (_, i) => reader.frameInfo(i))
+  const delays = roundDelays(retimed(frames.map(info => info.delay)))
+
+  const writer = new Writer(null, reader.getWidth(), reader.getHeight(), {
+    palette: reader.getGlobalPalette() ?? undefined,
+    loop: reader.getLoopCount(),
+    version: 'auto',
+  })
+
+  // Frames stay where they were and the global palette with them, so
+  // everything between them can be written back as it is.
+  const comments = reader.getComments()
+  const applications = reader.getApplicationExtensions()
+  const plainTexts = reader.getPlainTexts()
+  const writeExtensions = (frameIndex: number): void => {
+    for (const app of applications) {
+      if (app.frameIndex === frameIndex) writer.addApplicationExtension(app.identifier, app.authCode, app.data)
+    }
+    for (const comment of comments) {
+      if (comment.frameIndex === frameIndex) writer.addComment(comment.data)
+    }
+    for (const text of plainTexts) {
+      if (text.frame_index !== frameIndex) continue
+      writer.addPlainText(text.x, text.y, text.width, text.height, text.text, {
+        cellWidth: text.cell_width,
+        cellHeight: text.cell_height,
+        foreground: text.foreground_index,
+        background: text.background_index,
+        delay: text.delay,
+        disposal: text.disposal,
+        transparent: text.transparent_index ?? undefined,
+      })
+    }
+  }
+
+  frames.forEach((info, i) => {
+    writeExtensions(i)
+    if (reader.getFramePalette(i) === null) {
+      throw new GifFormatError('No palette found for frame', 'missing-palette', { frameIndex: i })
+    }
+    writer.addFrame(info.x, info.y, info.width, info.height, decodeFrameIndices(buf, info), {
+      palette: info.has_local_palette ? reader.getFramePalette(i)! : undefined,
+      delay: delays[i],
+      disposal: info.disposal,
+      transparent: info.transparent_index ?? undefined,
+      interlaced: info.interlaced,
+    })
+  })
+  writeExtensions(frames.length)
+
+  writer.end()
+  return writer.toUint8Array()
+}
+
+/**
+ * Round delays so each frame ends where the exact running total, rounded,
+ * would end it. Rounding errors don't pile up over long animations. A frame
+ * that had a delay keeps at least 1: browsers play 0 as about 10, which
+ * would make a speed-up slower instead.
+ */
+function roundDelays(exact: number[]): number[] {
+  let total = 0
+  let shown = 0
+  return exact.map((delay) => {
+    total += delay
+    const end = Math.round(total)
+    const rounded = Math.min(Math.max(end - shown, delay > 0 ? 1 : 0), 65535)
+    shown += rounded
+    return rounded
+  })
+}
+
+/** Every frame composited onto the full canvas, with its delay in milliseconds. */
+function renderAll(reader: Reader): AnimationFrame[] {
+  return Array.from({ length: reader.numFrames() }, (_, i) => ({
+    rgba: reader.renderFrame(i),
+    delay: reader.frameInfo(i).delay * 10,
+  }))
+}
+
+function encodeFrames(reader: Reader, frames: AnimationFrame[]): Uint8Array {
+  return encodeAnimation({
+    width: reader.getWidth(),
+    height: reader.getHeight(),
+    frames,
+    loop: reader.getLoopCount(),
+  })
+}
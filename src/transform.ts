@@ -0,0 +1,328 @@
+/**
+ * Lossless geometric transforms — crop, rotate and flip whole animations.
+ *
+ * Nothing is composited or requantized: each frame's index stream is cut or
+ * rearranged and its rectangle moved to match, so palettes, transparency,
+ * disposal and delays all carry over exactly, as does the loop count.
+ *
+ * A frame left with no pixels (outside the crop) is dropped and its delay
+ * added to the frame before it, which stays on screen in its place. That
+ * only holds when the frame before doesn't clear itself away (disposal 2 or
+ * 3) and the sum fits the 16-bit delay field; otherwise, or when there is
+ * no frame before, the time slot is kept with a single invisible pixel.
+ * Nor is a frame merged away when comments or other extensions sit in
+ * front of it, so they keep their place in the timeline.
+ *
+ * Comments and application extensions (XMP and the like) are carried over
+ * as they are, and so are the background colour and the pixel aspect ratio,
+ * which turns over when a quarter turn swaps width and height. Plain text survives a crop when its whole grid lies inside
+ * the crop rectangle. Rotating or flipping can't turn the glyphs, so plain
+ * text is dropped there.
+ */
+
+import type { Frame, PlainText } from './types'
+import { Buffer } from 'node:buffer'
+import { GifEncodeError, GifFormatError, GifLimitError } from './errors'
+import { decodeFrameIndices, Reader } from './reader'
+import { Writer } from './writer'
+
+export interface CropOptions {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/** Clockwise rotation in degrees. */
+export type RotateAngle = 90 | 180 | 270
+
+/** `'horizontal'` mirrors left to right, `'vertical'` top to bottom. */
+export type FlipDirection = 'horizontal' | 'vertical'
+
+/** A frame's index stream and where it sits on the screen. */
+interface Patch {
+  x: number
+  y: number
+  width: number
+  height: number
+  indices: Uint8Array
+}
+
+/** What a transform does to a screen of a given size. */
+interface Transform {
+  width: number
+  height: number
+  /** The frame moved and rearranged, `null` to drop it. */
+  transform: (patch: Patch) => Patch | null
+  /**
+   * Where a plain text grid goes, or `null` to drop it. Without this, plain
+   * text is dropped.
+   */
+  placeText?: (text: PlainText) => { x: number, y: number } | null
+  /** Width and height trade places, so pixels turn tall where they were wide. */
+  swapsAxes?: boolean
+}
+
+/** A frame waiting to be written, held back so dropped delays can be added. */
+interface PendingFrame {
+  patch: Patch
+  info: Frame
+  palette: number[] | undefined
+  delay: number
+}
+
+/**
+ * Cut the rectangle `options` out of the logical screen.
+ */
+export function crop(input: Uint8Array, options: CropOptions): Uint8Array {
+  const { x, y, width, height } = options
+  return transformFrames(input, (screenWidth, screenHeight) => {
+    if (![x, y, width, height].every(Number.isInteger) || x < 0 || y < 0 || width <= 0 || height <= 0
+      || x + width > screenWidth || y + height > screenHeight) {
+      throw new GifLimitError('Crop rectangle must lie within the logical screen.', 'dimensions-out-of-range')
+    }
+
+    return {
+      width,
+      height,
+      transform: (patch) => {
+        const x0 = Math.max(patch.x, x)
+        const y0 = Math.max(patch.y, y)
+        const x1 = Math.min(patch.x + patch.width, x + width)
+        const y1 = Math.min(patch.y + patch.height, y + height)
+        if (x0 >= x1 || y0 >= y1) return null
+        return cut(patch, x0, y0, x1, y1, x, y)
+      },
+      placeText: (text) => {
+        if (text.x < x || text.y < y || text.x + text.width > x + width || text.y + text.height > y + height)
+          return null
+        return { x: text.x - x, y: text.y - y }
+      },
+    }
+  })
+}
+
+/**
+ * Rotate clockwise by `angle` degrees. 90 and 270 swap the screen's width
+ * and height.
+ */
+export function rotate(input: Uint8Array, angle: RotateAngle): Uint8Array {
+  if (angle !== 90 && angle !== 180 && angle !== 270) {
+    throw new GifLimitError(`Rotation must be 90, 180 or 270 degrees, not ${String(angle)}.`, 'rotation-out-of-range')
+  }
+
+  return transformFrames(input, (screenWidth, screenHeight) => {
+    if (angle === 180) {
+      return {
+        width: screenWidth,
+        height: screenHeight,
+        transform: patch => ({
+          x: screenWidth - patch.x - patch.width,
+          y: screenHeight - patch.y - patch.height,
+          width: patch.width,
+          height: patch.height,
+          indices: patch.indices.slice().reverse(),
+        }),
+      }
+    }
+
+    return {
+      width: screenHeight,
+      height: screenWidth,
+      swapsAxes: true,
+      transform: (patch) => {
+        const { width: w, height: h, indices } = patch
+        const out = new Uint8Array(w * h)
+        // Output is h wide and w high; (col, row) of the output reads from
+        // the source pixel that lands there.
+        for (let row = 0; row < w; row++) {
+          for (let col = 0; col < h; col++) {
+            out[row * h + col] = angle === 90
+              ? indices[(h - 1 - col) * w + row]
+              : indices[col * w + (w - 1 - row)]
+          }
+        }
+        return angle === 90
+          ? { x: screenHeight - patch.y - h, y: patch.x, width: h, height: w, indices: out }
+          : { x: patch.y, y: screenWidth - patch.x - w, width: h, height: w, indices: out }
+      },
+    }
+  })
+}
+
+/**
+ * Mirror the animation horizontally or vertically.
+ */
+export function flip(input: Uint8Array, direction: FlipDirection): Uint8Array {
+  if (direction !== 'horizontal' && direction !== 'vertical') {
+    throw new GifEncodeError(`Unknown flip direction: ${String(direction)}`, 'invalid-option')
+  }
+
+  return transformFrames(input, (screenWidth, screenHeight) => ({
+    width: screenWidth,
+    height: screenHeight,
+    transform: (patch) => {
+      const { width: w, height: h, indices } = patch
+      const out = new Uint8Array(w * h)
+      for (let row = 0; row < h; row++) {
+        const line = indices.subarray(row * w, (row + 1) * w)
+        if (direction === 'horizontal')
+          out.set(line.slice().reverse(), row * w)
+        else
+          out.set(line, (h - 1 - row) * w)
+      }
+      return direction === 'horizontal'
+        ? { ...patch, x: screenWidth - patch.x - w, indices: out }
+        : { ...patch, y: screenHeight - patch.y - h, indices: out }
+    },
+  }))
+}
+
+// ───────────────────────────────────────────────────────────────────────────
+// Shared frame loop
+// ───────────────────────────────────────────────────────────────────────────
+
+/**
+ * Decode every frame (clipped to the screen), run it through the transform
+ * `setup()` returns for this screen size, and write the result. `null` from
+ * the transform drops the frame.
+ */
+function transformFrames(
+  input: Uint8Array,
+  setup: (screenWidth: number, screenHeight: number) => Transform,
+): Uint8Array {
+  const buf = Buffer.from(input)
+  const reader = new Reader(buf)
+  const screenWidth = reader.getWidth()
+  const screenHeight = reader.getHeight()
+  const { width, height, transform, placeText, swapsAxes } = setup(screenWidth, screenHeight)
+
+  const aspect = reader.getPixelAspectRatio()
+  const globalPalette = reader.getGlobalPalette()
+  const background = reader.getBackgroundIndex()
+  const writer = new Writer(null, width, height, {
+    palette: globalPalette ?? undefined,
+    loop: reader.getLoopCount(),
+    // The header holds ratios from 16/64 to 270/64; the inverse of one at
+    // either end needs clamping back in.
+    pixelAspectRatio: aspect === null ? null : swapsAxes ? Math.min(270 / 64, Math.max(16 / 64, 1 / aspect)) : aspect,
+    // Writer only takes an index the palette has, and not 0, which is what
+    // it writes anyway.
+    background: globalPalette !== null && background !== 0 && background < globalPalette.length ? background : undefined,
+    version: 'auto',
+  })
+
+  const write = (frame: PendingFrame): void => {
+    const { patch, info } = frame
+    writer.addFrame(patch.x, patch.y, patch.width, patch.height, patch.indices, {
+      palette: frame.palette,
+      delay: frame.delay,
+      disposal: info.disposal,
+      transparent: info.transparent_index ?? undefined,
+      interlaced: info.interlaced,
+    })
+  }
+
+  const comments = reader.getComments()
+  const applications = reader.getApplicationExtensions()
+  const plainTexts = placeText === undefined
+    ? []
+    : reader.getPlainTexts().flatMap((text) => {
+        const at = placeText(text)
+        return at === null ? [] : [{ ...text, ...at }]
+      })
+
+  // Everything that sits in front of frame |frameIndex|.
+  const writeExtensions = (frameIndex: number): void => {
+    for (const app of applications) {
+      if (app.frameIndex === frameIndex) writer.addApplicationExtension(app.identifier, app.authCode, app.data)
+    }
+    for (const comment of comments) {
+      if (comment.frameIndex === frameIndex) writer.addComment(comment.data)
+    }
+    for (const text of plainTexts) {
+      if (text.frame_index !== frameIndex) continue
+      writer.addPlainText(text.x, text.y, text.width, text.height, text.text, {
+        cellWidth: text.cell_width,
+        cellHeight: text.cell_height,
+        foreground: text.foreground_index,
+        background: text.background_index,
+        delay: text.delay,
+        disposal: text.disposal,
+        transparent: text.transparent_index ?? undefined,
+      })
+    }
+  }
+
+  const hasExtensions = (frameIndex: number): boolean =>
+    applications.some(a => a.frameIndex === frameIndex)
+    || comments.some(c => c.frameIndex === frameIndex)
+    || plainTexts.some(t => t.frame_index === frameIndex)
+
+  let pending: PendingFrame | null = null
+  for (let i = 0; i < reader.numFrames(); i++) {
+    // Extensions go between the frame before and this one, so the frame
+    // before can't grow over them.
+    if (hasExtensions(i)) {
+      if (pending !== null) write(pending)
+      pending = null
+      writeExtensions(i)
+    }
+
+    const info = reader.frameInfo(i)
+    if (reader.getFramePalette(i) === null) {
+      throw new GifFormatError('No palette found for frame', 'missing-palette', { frameIndex: i })
+    }
+    const palette = info.has_local_palette ? reader.getFramePalette(i)! : undefined
+
+    // Frames hanging off the screen are clipped to it first.
+    const x1 = Math.min(info.x + info.width, screenWidth)
+    const y1 = Math.min(info.y + info.height, screenHeight)
+    let patch: Patch | null = null
+    if (info.x < x1 && info.y < y1) {
+      const full = { x: info.x, y: info.y, width: info.width, height: info.height, indices: decodeFrameIndices(buf, info) }
+      patch = transform(cut(full, info.x, info.y, x1, y1, 0, 0))
+    }
+
+    if (patch === null) {
+      // Nothing left to draw: let the previous frame stay up longer.
+      if (pending !== null && pending.info.disposal <= 1 && pending.delay + info.delay <= 65535) {
+        pending.delay += info.delay
+        continue
+      }
+      // Keep the time slot; a frame whose only pixel is transparent and
+      // stays put changes nothing on screen.
+      const invisible = { x: 0, y: 0, width: 1, height: 1, indices: new Uint8Array(1) }
+      if (pending !== null) write(pending)
+      pending = { patch: invisible, info: { ...info, disposal: 1, transparent_index: 0, interlaced: false }, palette, delay: info.delay }
+      continue
+    }
+
+    if (pending !== null) write(pending)
+    pending = { patch, info, palette, delay: info.delay }
+  }
+  if (pending !== null) write(pending)
+  writeExtensions(reader.numFrames())
+
+  writer.end()
+  return writer.toUint8Array()
+}
+
+/**
+ * The part of `patch` inside `[x0, x1) × [y0, y1)`, with its position given
+ * relative to `(originX, originY)`. The index stream is shared, not copied,
+ * when nothing is cut away.
+ */
+function cut(patch: Patch, x0: number, y0: number, x1: number, y1: number, originX: number, originY: number): Patch {
+  const width = x1 - x0
+  const height = y1 - y0
+  let indices = patch.indices
+  if (width !== patch.width || height !== patch.height) {
+    indices = new Uint8Array(width * height)
+    for (let row = 0; row < height; row++) {
+      const from = (y0 - patch.y + row) * patch.width + (x0 - patch.x)
+      indices.set(patch.indices.subarray(from, from + width), row * width)
+    }
+  }
+  return { x: x0 - originX, y: y0 - originY, width, height, indices }
+}
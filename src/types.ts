@@ -1,14 +1,41 @@
 export interface WriterOptions {
-  loop?: number
+  loop?: number | null
   palette?: number[]
   background?: number
+  /**
+   * Pixel width / height, 0.25 .. 4.2, as returned by
+   * `Reader.getPixelAspectRatio()`. The descriptor stores it in 1/64
+   * steps. Default `null` (square pixels, nothing stored).
+   */
+  pixelAspectRatio?: number | null
+  /**
+   * Header version. `'auto'` writes GIF87a and switches to GIF89a as soon
+   * as something needing it is written (graphics control, looping,
+   * comments, other extensions, pixel aspect ratio). `'87a'` throws when
+   * such a thing is asked for. Default `'89a'`.
+   */
+  version?: GifVersion
 }
 
+export type GifVersion = '87a' | '89a' | 'auto'
+
 export interface FrameOptions {
   palette?: number[]
   delay?: number
   disposal?: number
   transparent?: number
+  /**
+   * Store the rows in the 4-pass interlaced order so viewers can show a
+   * coarse version early. Pixels are still passed top to bottom.
+   * Default `false`.
+   */
+  interlaced?: boolean
+  /**
+   * Let the LZW encoder swap in similar colours to get longer runs, 0 .. 200
+   * (gifsicle's `--lossy` scale). Smaller output, slightly wrong pixels.
+   * Default `0` (lossless).
+   */
+  lossy?: number
 }
 
 export interface Frame {
@@ -25,4 +52,94 @@ export interface Frame {
   interlaced: boolean
   delay: number
   disposal: number
+  /**
+   * Set in lenient mode on the last frame when the file is cut off or
+   * corrupted inside or right after it, so its image may be incomplete.
+   */
+  partial: boolean
+}
+
+export interface PlainTextOptions {
+  /** Character cell width in pixels, 1 .. 255. Default `6`, the built-in font's cell. */
+  cellWidth?: number
+  /** Character cell height in pixels, 1 .. 255. Default `8`. */
+  cellHeight?: number
+  /** Global palette index of the glyphs. Default `1`. */
+  foreground?: number
+  /** Global palette index of the rest of the grid. Default `0`. */
+  background?: number
+  delay?: number
+  disposal?: number
+  transparent?: number
+}
+
+// A Plain Text Extension: |text| laid out on a grid of cells, left to right
+// and top to bottom, drawn with colours from the global palette.
+export interface PlainText {
+  x: number
+  y: number
+  width: number
+  height: number
+  cell_width: number
+  cell_height: number
+  foreground_index: number
+  background_index: number
+  text: string
+  palette_offset: number | null
+  palette_size: number | null
+  transparent_index: number | null
+  delay: number
+  disposal: number
+  // Number of frames that came before it.
+  frame_index: number
+}
+
+export interface GifComment {
+  /** Comment text, decoded as UTF-8. */
+  text: string
+  /** Raw payload, every data sub-block concatenated. */
+  data: Uint8Array
+  /**
+   * Number of frames that came before the comment, i.e. the index of the
+   * frame it precedes. `0` is the global position (ahead of every frame);
+   * the frame count means it follows the last frame.
+   */
+  frameIndex: number
+}
+
+export interface GifApplicationExtension {
+  /** 8 character application identifier, e.g. `'XMP Data'` or `'ICCRGBG1'`. */
+  identifier: string
+  /** 3 character authentication code, e.g. `'XMP'` or `'012'`. */
+  authCode: string
+  /**
+   * Payload, every data sub-block concatenated. For XMP this is the raw
+   * packet, without the magic trailer.
+   */
+  data: Uint8Array
+  /** Number of frames that came before the extension, like `GifComment.frameIndex`. */
+  frameIndex: number
+}
+
+export interface ReaderOptions {
+  /**
+   * Keep every frame parsed before a truncated or corrupted part of the file
+   * instead of throwing. The last frame is marked `partial` when the damage
+   * is in its own image data. Default `false`.
+   */
+  lenient?: boolean
+}
+
+export interface FrameIteratorOptions {
+  /** Render every frame into one shared buffer instead of a fresh one. */
+  reuseBuffer?: boolean
+}
+
+export interface RenderedFrame {
+  index: number
+  /** Full-canvas RGBA, composited with every earlier frame's disposal. */
+  rgba: Uint8Array
+  /** Delay in milliseconds. */
+  delay: number
+  frame: Frame
 }
@@ -0,0 +1,377 @@
+/**
+ * Strict validation — walks a GIF and reports every spec violation it finds,
+ * with the byte offset of each, instead of stopping at the first one.
+ *
+ * `Reader` is lenient on purpose: it skips stray bytes, accepts frames that
+ * hang off the logical screen and decodes LZW data that never says it's
+ * done, because that's what browsers do. `validate()` points all of that
+ * out so an upload pipeline can decide what it accepts:
+ *
+ *   error   — `Reader` can't decode the file as intended: it would throw,
+ *             the data stops in the middle of a block, or the image data is
+ *             corrupt. Walking stops when the next block can't be found.
+ *   warning — the file breaks the spec, but `Reader` and browsers cope.
+ *
+ * Nothing is decoded to pixels; LZW streams are only walked to check their
+ * codes, so validating is cheap even for long animations.
+ */
+
+import { subBlocksEnd } from './reader'
+
+export type GifDiagnosticSeverity = 'error' | 'warning'
+
+export type GifDiagnosticCode =
+  | 'invalid-header'
+  | 'truncated'
+  | 'unknown-block'
+  | 'unknown-extension'
+  | 'invalid-graphics-control'
+  | 'invalid-application-extension'
+  | 'invalid-plain-text'
+  | 'missing-palette'
+  | 'invalid-code-size'
+  | 'invalid-lzw-code'
+  | 'missing-eoi'
+  | 'pixel-count-mismatch'
+  | 'color-index-out-of-range'
+  | 'transparent-index-out-of-range'
+  | 'background-index-out-of-range'
+  | 'frame-outside-screen'
+  | 'duplicate-graphics-control'
+  | 'reserved-disposal'
+  | 'extension-in-87a'
+  | 'stray-byte'
+  | 'missing-trailer'
+  | 'data-after-trailer'
+
+export interface GifDiagnostic {
+  severity: GifDiagnosticSeverity
+  code: GifDiagnosticCode
+  /** Byte offset of the problem, usually the start of the block it's in. */
+  offset: number
+  message: string
+}
+
+interface ValidationState {
+  buf: Uint8Array
+  diagnostics: GifDiagnostic[]
+  is89a: boolean
+  width: number
+  height: number
+  globalPaletteSize: number | null
+  frameCount: number
+  // The Graphics Control Extension waiting for its image, if any.
+  control: { offset: number, transparent: number | null } | null
+}
+
+/**
+ * Check `buf` against the GIF87a/89a spec. Returns the diagnostics in file
+ * order; an empty list means the file is clean.
+ */
+export function validate(buf: Uint8Array): GifDiagnostic[] {
+  const diagnostics: GifDiagnostic[] = []
+
+  // ── Header and logical screen descriptor ─────────────────────────────
+  if (buf[0] !== 0x47 || buf[1] !== 0x49 || buf[2] !== 0x46 || buf[3] !== 0x38
+    || (buf[4] !== 0x37 && buf[4] !== 0x39) || buf[5] !== 0x61) {
+    report(diagnostics, 'error', 'invalid-header', 0, 'Not a GIF87a/89a header.')
+    return diagnostics
+  }
+  if (buf.length < 13) {
+    report(diagnostics, 'error', 'truncated', buf.length, 'File ends inside the logical screen descriptor.')
+    return diagnostics
+  }
+
+  const flags = buf[10]
+  const state: ValidationState = {
+    buf,
+    diagnostics,
+    is89a: buf[4] === 0x39,
+    width: buf[6] | buf[7] << 8,
+    height: buf[8] | buf[9] << 8,
+    globalPaletteSize: flags >> 7 ? 1 << ((flags & 0x7) + 1) : null,
+    frameCount: 0,
+    control: null,
+  }
+
+  let p = 13
+  if (state.globalPaletteSize !== null) {
+    p += state.globalPaletteSize * 3
+    if (p > buf.length) {
+      report(diagnostics, 'error', 'truncated', buf.length, 'File ends inside the global colour table.')
+      return diagnostics
+    }
+    if (buf[11] >= state.globalPaletteSize) {
+      report(diagnostics, 'warning', 'background-index-out-of-range', 11,
+        `Background index ${buf[11]} is past the ${state.globalPaletteSize} colour global table.`)
+    }
+  }
+
+  // ── Blocks ───────────────────────────────────────────────────────────
+  let ended = false
+  while (p < buf.length) {
+    const start = p
+    const label = buf[p]
+
+    if (label === 0x3B) {
+      ended = true
+      p++
+      break
+    }
+
+    if (label === 0x00) {
+      while (p < buf.length && buf[p] === 0x00) p++
+      report(diagnostics, 'warning', 'stray-byte', start, `${p - start} stray 0x00 byte(s) between blocks.`)
+      continue
+    }
+
+    if (label === 0x21)
+      p = checkExtension(state, start)
+    else if (label === 0x2C)
+      p = checkImage(state, start)
+    else {
+      report(diagnostics, 'error', 'unknown-block', start, `Unknown block 0x${label.toString(16)}, can't find the next block.`)
+      return diagnostics
+    }
+
+    if (p < 0) {
+      report(diagnostics, 'error', 'truncated', start, 'File ends inside a block.')
+      return diagnostics
+    }
+  }
+
+  if (!ended)
+    report(diagnostics, 'warning', 'missing-trailer', buf.length, 'No trailer (0x3B) at the end of the file.')
+  else if (p < buf.length)
+    report(diagnostics, 'warning', 'data-after-trailer', p, `${buf.length - p} byte(s) after the trailer.`)
+
+  return diagnostics
+}
+
+// ───────────────────────────────────────────────────────────────────────────
+// Blocks
+// ───────────────────────────────────────────────────────────────────────────
+
+/** Extension starting at `p`. Returns the offset past it, -1 when truncated. */
+function checkExtension(state: ValidationState, p: number): number {
+  const { buf, diagnostics } = state
+  if (p + 2 >= buf.length)
+    return -1
+
+  const label = buf[p + 1]
+  const end = subBlocksEnd(buf, p + 2, buf.length)
+  if (end < 0)
+    return -1
+
+  if (!state.is89a) {
+    report(diagnostics, 'warning', 'extension-in-87a', p,
+      `Extension 0x${label.toString(16)} in a GIF87a file, which has no extensions.`)
+  }
+
+  switch (label) {
+    case 0xF9: { // Graphics Control Extension
+      if (buf[p + 2] !== 4 || end !== p + 8) {
+        report(diagnostics, 'error', 'invalid-graphics-control', p,
+          'Graphics Control Extension must be a single 4 byte sub-block.')
+        break
+      }
+      if (state.control !== null) {
+        report(diagnostics, 'warning', 'duplicate-graphics-control', p,
+          'Second Graphics Control Extension before the same image.')
+      }
+      const flags = buf[p + 3]
+      const disposal = flags >> 2 & 0x7
+      if (disposal > 3)
+        report(diagnostics, 'warning', 'reserved-disposal', p + 3, `Reserved disposal method ${disposal}.`)
+      state.control = { offset: p, transparent: flags & 1 ? buf[p + 6] : null }
+      break
+    }
+
+    case 0xFF: // Application Extension
+      if (buf[p + 2] !== 11) {
+        report(diagnostics, 'error', 'invalid-application-extension', p,
+          'Application Extension must start with an 11 byte identifier block.')
+      }
+      break
+
+    case 0x01: // Plain Text Extension, takes the pending control block.
+      if (buf[p + 2] !== 12)
+        report(diagnostics, 'error', 'invalid-plain-text', p, 'Plain Text Extension must start with a 12 byte block.')
+      state.control = null
+      break
+
+    case 0xFE: // Comment Extension, anything goes.
+      break
+
+    default:
+      report(diagnostics, 'error', 'unknown-extension', p, `Unknown extension label 0x${label.toString(16)}.`)
+  }
+
+  return end
+}
+
+/** Image starting at `p`. Returns the offset past it, -1 when truncated. */
+function checkImage(state: ValidationState, p: number): number {
+  const { buf, diagnostics } = state
+  if (p + 10 > buf.length)
+    return -1
+
+  const n = state.frameCount++
+  const x = buf[p + 1] | buf[p + 2] << 8
+  const y = buf[p + 3] | buf[p + 4] << 8
+  const width = buf[p + 5] | buf[p + 6] << 8
+  const height = buf[p + 7] | buf[p + 8] << 8
+  const flags = buf[p + 9]
+
+  let q = p + 10
+  let paletteSize = state.globalPaletteSize
+  if (flags >> 7) {
+    paletteSize = 1 << ((flags & 0x7) + 1)
+    q += paletteSize * 3
+  }
+  if (q >= buf.length)
+    return -1
+
+  const end = subBlocksEnd(buf, q + 1, buf.length)
+  if (end < 0)
+    return -1
+
+  const control = state.control
+  state.control = null
+
+  if (x + width > state.width || y + height > state.height) {
+    report(diagnostics, 'warning', 'frame-outside-screen', p,
+      `Frame ${n} (${width}x${height} at ${x},${y}) extends past the ${state.width}x${state.height} logical screen.`)
+  }
+
+  if (paletteSize === null) {
+    report(diagnostics, 'error', 'missing-palette', p, `Frame ${n} has no local colour table and there is no global one.`)
+  }
+  else if (control !== null && control.transparent !== null && control.transparent >= paletteSize) {
+    report(diagnostics, 'warning', 'transparent-index-out-of-range', control.offset + 6,
+      `Transparent index ${control.transparent} of frame ${n} is past its ${paletteSize} colour table.`)
+  }
+
+  // Codes are at most 12 bits, so anything from 12 up can't even hold the
+  // clear and end codes.  The spec asks for 2 .. 8.
+  const minCodeSize = buf[q]
+  if (minCodeSize < 2 || minCodeSize > 8) {
+    report(diagnostics, minCodeSize > 11 ? 'error' : 'warning', 'invalid-code-size', q,
+      `Frame ${n} has LZW minimum code size ${minCodeSize}, must be 2 .. 8.`)
+    if (minCodeSize > 11)
+      return end
+  }
+
+  const scan = scanLZW(buf, q)
+  if (scan.invalidAt >= 0) {
+    report(diagnostics, 'error', 'invalid-lzw-code', scan.invalidAt, `Frame ${n} has an LZW code that isn't in the table.`)
+    return end
+  }
+  if (!scan.eoi)
+    report(diagnostics, 'warning', 'missing-eoi', end - 1, `Frame ${n} LZW data has no end of information code.`)
+  if (scan.pixels !== width * height) {
+    report(diagnostics, 'warning', 'pixel-count-mismatch', q,
+      `Frame ${n} decodes to ${scan.pixels} pixels, ${width * height} expected.`)
+  }
+  if (paletteSize !== null && scan.maxIndex >= paletteSize) {
+    report(diagnostics, 'warning', 'color-index-out-of-range', q,
+      `Frame ${n} uses colour index ${scan.maxIndex}, its table has ${paletteSize} colours.`)
+  }
+
+  return end
+}
+
+// ───────────────────────────────────────────────────────────────────────────
+// LZW
+// ───────────────────────────────────────────────────────────────────────────
+
+interface LZWScan {
+  /** Number of indices the stream decodes to. */
+  pixels: number
+  /** Largest literal index used, -1 for none. */
+  maxIndex: number
+  /** Whether the end of information code was seen. */
+  eoi: boolean
+  /** Offset of the byte holding the first bad code, -1 when all are fine. */
+  invalidAt: number
+}
+
+/**
+ * Walk the code stream at `p` (minimum code size, then sub-blocks) the way
+ * `readerLZWOutputIndexStream()` decodes it, tracking only entry lengths.
+ * Every index comes from a literal code somewhere, so the largest literal is
+ * the largest index.
+ */
+function scanLZW(buf: Uint8Array, p: number): LZWScan {
+  const minCodeSize = buf[p++]
+  const clearCode = 1 << minCodeSize
+  const eoiCode = clearCode + 1
+  const lengths = new Uint16Array(4096).fill(1, 0, clearCode)
+
+  const scan: LZWScan = { pixels: 0, maxIndex: -1, eoi: false, invalidAt: -1 }
+  let nextCode = eoiCode + 1
+  let codeSize = minCodeSize + 1
+  let prev = -1
+  let bits = 0
+  let bitCount = 0
+
+  for (let size = buf[p++]; size > 0; size = buf[p++]) {
+    for (const blockEnd = p + size; p < blockEnd; p++) {
+      bits |= buf[p] << bitCount
+      bitCount += 8
+
+      while (bitCount >= codeSize) {
+        const code = bits & ((1 << codeSize) - 1)
+        bits >>>= codeSize
+        bitCount -= codeSize
+
+        if (code === clearCode) {
+          nextCode = eoiCode + 1
+          codeSize = minCodeSize + 1
+          prev = -1
+          continue
+        }
+        if (code === eoiCode) {
+          scan.eoi = true
+          return scan
+        }
+
+        let length: number
+        if (code < clearCode) {
+          length = 1
+          if (code > scan.maxIndex) scan.maxIndex = code
+        }
+        else if (code < nextCode) {
+          length = lengths[code]
+        }
+        else if (code === nextCode && prev >= 0) { // {CODE-1} + k
+          length = lengths[prev] + 1
+        }
+        else {
+          scan.invalidAt = p
+          return scan
+        }
+
+        if (prev >= 0 && nextCode < 4096) {
+          lengths[nextCode++] = lengths[prev] + 1
+          if (nextCode === 1 << codeSize && codeSize < 12) codeSize++
+        }
+
+        scan.pixels += length
+        prev = code
+      }
+    }
+  }
+
+  return scan
+}
+
+function report(
+  diagnostics: GifDiagnostic[],
+  severity: GifDiagnosticSeverity,
+  code: GifDiagnosticCode,
+  offset: number,
+  message: string,
+): void {
+  diagnostics.push({ severity, code, offset, message })
+}
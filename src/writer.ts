@@ -1,35 +1,59 @@
-import type { Buffer } from 'node:buffer'
-import type { FrameOptions, WriterOptions } from './types'
+import type { FrameOptions, GifVersion, PlainTextOptions, WriterOptions } from './types'
+import { Buffer } from 'node:buffer'
+import { GifBufferOverflowError, GifEncodeError, GifLimitError } from './errors'
+import { padPalette } from './quantize'
+
+// Starting size of the buffer a growable writer allocates for itself.
+const INITIAL_CAPACITY = 4096
+
+// First row and row step of each interlace pass.
+const INTERLACE_PASSES = [[0, 8], [4, 8], [2, 4], [1, 2]]
 
 export class Writer {
   private buffer: Buffer
+  private growable: boolean
   private width: number
   private height: number
   private position: number = 0
   private ended: boolean = false
   private globalPalette: number[] | null
-
-  constructor(buf: Buffer, width: number, height: number, options: WriterOptions = {}) {
-    this.buffer = buf
+  private version: GifVersion
+  // Whether the header currently says GIF89a.
+  private is89a: boolean
+  // Frames added so far, for error reporting.
+  private numFrames: number = 0
+
+  // Pass `null` as the buffer to let the writer allocate and grow its own
+  // output as needed; read the result back with `toUint8Array()`.
+  constructor(buf: Buffer | null, width: number, height: number, options: WriterOptions = {}) {
+    this.growable = buf === null
+    this.buffer = buf ?? Buffer.alloc(INITIAL_CAPACITY)
     this.width = width
     this.height = height
-    this.globalPalette = options.palette ?? null
+    this.version = options.version ?? '89a'
+    this.is89a = this.version === '89a'
 
     if (width <= 0 || height <= 0 || width > 65535 || height > 65535) {
-      throw new Error('Width/Height invalid.')
+      throw new GifLimitError('Width/Height invalid.', 'dimensions-out-of-range')
     }
 
+    this.globalPalette = options.palette ? this.checkPalette(options.palette) : null
+
     this.writeHeader()
     this.writeLogicalScreenDescriptor(options)
     this.writeGlobalColorTable()
     this.writeNetscapeLoopingExtension(options.loop)
   }
 
-  private checkPaletteAndNumColors(palette: number[]): number {
+  // Validate |palette| and pad it with black to a power of two, the only
+  // sizes a colour table can have.
+  private checkPalette(palette: number[], frame_index: number | null = null): number[] {
     const num_colors = palette.length
 
-    if (num_colors < 2 || num_colors > 256 || num_colors & (num_colors - 1)) {
-      throw new Error('Invalid code/color length, must be power of 2 and 2 .. 256.')
+    if (num_colors < 2 || num_colors > 256) {
+      throw new GifLimitError('Invalid code/color length, must be 2 .. 256.', 'palette-size-out-of-range', {
+        frameIndex: frame_index,
+      })
     }
 
     // Each entry encodes 24-bit RGB packed as `(r << 16) | (g << 8) | b`.
@@ -38,29 +62,87 @@ export class Writer {
     for (let i = 0; i < num_colors; i++) {
       const c = palette[i]
       if (!Number.isInteger(c) || c < 0 || c > 0xFFFFFF) {
-        throw new Error(`Palette entry ${i} (${c}) is not a 24-bit RGB integer.`)
+        throw new GifEncodeError(`Palette entry ${i} (${c}) is not a 24-bit RGB integer.`, 'invalid-palette', {
+          frameIndex: frame_index,
+        })
       }
     }
 
-    return num_colors
+    return padPalette(palette)
+  }
+
+  // Make room for `size` more bytes at the current position.  A growable
+  // writer reallocates; a fixed one refuses up front, because writes past
+  // the end of a typed array are silently dropped and would corrupt the GIF.
+  private reserve(size: number, frame_index: number | null = null): void {
+    const needed = this.position + size
+    if (needed <= this.buffer.length)
+      return
+
+    if (!this.growable)
+      throw overflowError(needed, this.buffer.length, this.position, frame_index)
+
+    let capacity = this.buffer.length * 2
+    while (capacity < needed) capacity *= 2
+
+    const grown = Buffer.alloc(capacity)
+    grown.set(this.buffer.subarray(0, this.position))
+    this.buffer = grown
+  }
+
+  // Undo a partially written block so the writer is left as it was,
+  // including the trailer if it had stepped back over it and the header
+  // if 'auto' had already upgraded it.
+  private rollback(start: number, wasEnded: boolean, was89a: boolean): void {
+    this.position = start
+    if (this.is89a && !was89a) {
+      this.buffer[4] = 0x37 // 7
+      this.is89a = false
+    }
+    if (wasEnded)
+      this.end()
   }
 
   private writeHeader(): void {
-    // Write GIF89a header
+    this.reserve(6)
+
+    // Write GIF89a (or 87a) header
     this.buffer[this.position++] = 0x47 // G
     this.buffer[this.position++] = 0x49 // I
     this.buffer[this.position++] = 0x46 // F
     this.buffer[this.position++] = 0x38 // 8
-    this.buffer[this.position++] = 0x39 // 9
+    this.buffer[this.position++] = this.is89a ? 0x39 : 0x37 // 9 or 7
     this.buffer[this.position++] = 0x61 // a
   }
 
+  // Called before writing anything GIF87a doesn't have.  In 'auto' mode the
+  // header, which sits at the start of the buffer, is upgraded in place.
+  private require89a(what: string): void {
+    if (this.is89a)
+      return
+    if (this.version === '87a') {
+      throw new GifEncodeError(`GIF87a can't store ${what}.`, 'unsupported-in-87a')
+    }
+    this.buffer[4] = 0x39 // 9
+    this.is89a = true
+  }
+
   private writeLogicalScreenDescriptor(options: WriterOptions): void {
     let gp_num_colors_pow2 = 0
     let background = 0
+    let aspect = 0
+
+    // Stored as N where the ratio is (N + 15) / 64.
+    if (options.pixelAspectRatio !== undefined && options.pixelAspectRatio !== null) {
+      aspect = Math.round(options.pixelAspectRatio * 64 - 15)
+      if (!(aspect >= 1 && aspect <= 255)) {
+        throw new GifLimitError('Pixel aspect ratio out of range.', 'aspect-ratio-out-of-range')
+      }
+      this.require89a('a pixel aspect ratio')
+    }
 
     if (this.globalPalette !== null) {
-      let gp_num_colors = this.checkPaletteAndNumColors(this.globalPalette)
+      let gp_num_colors = this.globalPalette.length
       // eslint-disable-next-line no-cond-assign
       while (gp_num_colors >>= 1) ++gp_num_colors_pow2
       gp_num_colors = 1 << gp_num_colors_pow2
@@ -69,30 +151,32 @@ export class Writer {
       if (options.background !== undefined) {
         background = options.background
         if (background >= gp_num_colors) {
-          throw new Error('Background index out of range.')
+          throw new GifLimitError('Background index out of range.', 'background-index-out-of-range')
         }
         // The GIF spec states that a background index of 0 should be ignored, so
         // this is probably a mistake and you really want to set it to another
         // slot in the palette.  But actually, in the end, most browsers, etc., end
         // up ignoring this almost completely (including for dispose background).
         if (background === 0) {
-          throw new Error('Background index explicitly passed as 0.')
+          throw new GifEncodeError('Background index explicitly passed as 0.', 'zero-background-index')
         }
       }
     }
 
     // Write Logical Screen Descriptor
+    this.reserve(7)
     this.buffer[this.position++] = this.width & 0xFF
     this.buffer[this.position++] = this.width >> 8 & 0xFF
     this.buffer[this.position++] = this.height & 0xFF
     this.buffer[this.position++] = this.height >> 8 & 0xFF
     this.buffer[this.position++] = (this.globalPalette !== null ? 0x80 : 0) | gp_num_colors_pow2
     this.buffer[this.position++] = background
-    this.buffer[this.position++] = 0 // Pixel aspect ratio (unused)
+    this.buffer[this.position++] = aspect // Pixel aspect ratio
   }
 
   private writeGlobalColorTable(): void {
     if (this.globalPalette !== null) {
+      this.reserve(this.globalPalette.length * 3)
       for (let i = 0; i < this.globalPalette.length; ++i) {
         const rgb = this.globalPalette[i]
         this.buffer[this.position++] = rgb >> 16 & 0xFF
@@ -105,10 +189,12 @@ export class Writer {
   private writeNetscapeLoopingExtension(loopCount: number | null | undefined): void {
     if (loopCount !== null && loopCount !== undefined) {
       if (loopCount < 0 || loopCount > 65535) {
-        throw new Error('Loop count invalid.')
+        throw new GifLimitError('Loop count invalid.', 'loop-count-out-of-range')
       }
+      this.require89a('looping')
 
       // Write Netscape Extension for looping
+      this.reserve(19)
       this.buffer[this.position++] = 0x21 // Extension Introduction
       this.buffer[this.position++] = 0xFF // Application Extension Label
       this.buffer[this.position++] = 0x0B // Block Size
@@ -143,31 +229,32 @@ export class Writer {
     indexedPixels: Uint8Array,
     options: FrameOptions = {},
   ): number {
+    const frameIndex = this.numFrames
+    const wasEnded = this.ended
     if (this.ended) {
       --this.position
       this.ended = false
     }
 
     if (x < 0 || y < 0 || x > 65535 || y > 65535) {
-      throw new Error('x/y invalid.')
+      throw new GifLimitError('x/y invalid.', 'position-out-of-range', { frameIndex })
     }
 
     if (width <= 0 || height <= 0 || width > 65535 || height > 65535) {
-      throw new Error('Width/Height invalid.')
+      throw new GifLimitError('Width/Height invalid.', 'dimensions-out-of-range', { frameIndex })
     }
 
     if (indexedPixels.length < width * height) {
-      throw new Error('Not enough pixels for the frame size.')
+      throw new GifEncodeError('Not enough pixels for the frame size.', 'not-enough-pixels', { frameIndex })
     }
 
     const usingLocalPalette = options.palette !== undefined && options.palette !== null
-    const palette = usingLocalPalette ? options.palette! : this.globalPalette
-
-    if (!palette) {
-      throw new Error('Must supply either a local or global palette.')
+    if (!usingLocalPalette && !this.globalPalette) {
+      throw new GifEncodeError('Must supply either a local or global palette.', 'missing-palette', { frameIndex })
     }
 
-    let numColors = this.checkPaletteAndNumColors(palette)
+    const palette = usingLocalPalette ? this.checkPalette(options.palette!, frameIndex) : this.globalPalette!
+    let numColors = palette.length
 
     // Compute the min_code_size (power of 2)
     let minCodeSize = 0
@@ -192,7 +279,12 @@ export class Writer {
     const disposal = options.disposal ?? 0
 
     if (disposal < 0 || disposal > 3) {
-      throw new Error('Disposal out of range.')
+      throw new GifLimitError('Disposal out of range.', 'disposal-out-of-range', { frameIndex })
+    }
+
+    const lossy = options.lossy ?? 0
+    if (!(lossy >= 0 && lossy <= 200)) {
+      throw new GifLimitError('Lossy level out of range.', 'lossy-out-of-range', { frameIndex })
     }
 
     let useTransparency = false
@@ -202,22 +294,29 @@ export class Writer {
       useTransparency = true
       transparentIndex = options.transparent
       if (transparentIndex < 0 || transparentIndex >= numColors) {
-        throw new Error('Transparent color index.')
+        throw new GifLimitError('Transparent color index.', 'transparent-index-out-of-range', { frameIndex })
       }
     }
 
-    // Write Graphics Control Extension if needed
-    if (disposal !== 0 || useTransparency || delay !== 0) {
-      this.buffer[this.position++] = 0x21 // Extension Introducer
-      this.buffer[this.position++] = 0xF9 // Graphics Control Label
-      this.buffer[this.position++] = 4 // Byte Size
-      this.buffer[this.position++] = disposal << 2 | (useTransparency ? 1 : 0)
-      this.buffer[this.position++] = delay & 0xFF
-      this.buffer[this.position++] = delay >> 8 & 0xFF
-      this.buffer[this.position++] = transparentIndex
-      this.buffer[this.position++] = 0 // Block Terminator
+    const graphicsControl = disposal !== 0 || useTransparency || delay !== 0
+
+    // Graphics Control Extension + Image Descriptor + Local Color Table.
+    const start = this.position
+    const was89a = this.is89a
+    try {
+      if (graphicsControl)
+        this.require89a('delay, disposal or transparency')
+      this.reserve(8 + 10 + (usingLocalPalette ? palette.length * 3 : 0), frameIndex)
+    }
+    catch (err) {
+      this.rollback(start, wasEnded, was89a)
+      throw err
     }
 
+    // Write Graphics Control Extension if needed
+    if (graphicsControl)
+      this.writeGraphicsControlExtension(delay, disposal, useTransparency ? transparentIndex : null)
+
     // Write Image Descriptor
     this.buffer[this.position++] = 0x2C // Image Separator
     this.buffer[this.position++] = x & 0xFF
@@ -228,7 +327,8 @@ export class Writer {
     this.buffer[this.position++] = width >> 8 & 0xFF
     this.buffer[this.position++] = height & 0xFF
     this.buffer[this.position++] = height >> 8 & 0xFF
-    this.buffer[this.position++] = usingLocalPalette ? (0x80 | (minCodeSize - 1)) : 0
+    this.buffer[this.position++] = (usingLocalPalette ? (0x80 | (minCodeSize - 1)) : 0)
+      | (options.interlaced ? 0x40 : 0)
 
     // Write Local Color Table
     if (usingLocalPalette) {
@@ -240,24 +340,237 @@ export class Writer {
       }
     }
 
-    this.position = writerOutputLZWCodeStream(
-      this.buffer,
-      this.position,
-      minCodeSize < 2 ? 2 : minCodeSize,
-      indexedPixels,
-    )
+    // The exact LZW size isn't known up front.  Growable writers reserve
+    // the worst case; fixed ones encode and then check where they ended up.
+    if (this.growable)
+      this.reserve(lzwOutputBound(indexedPixels.length), frameIndex)
+
+    const indexStream = options.interlaced ? interlace(indexedPixels, width, height) : indexedPixels
+    const end = lossy > 0
+      ? writerOutputLossyLZWCodeStream(
+          this.buffer,
+          this.position,
+          minCodeSize < 2 ? 2 : minCodeSize,
+          // The lossy encoder rewrites the indices; don't touch the caller's.
+          indexStream === indexedPixels ? indexedPixels.slice() : indexStream,
+          palette,
+          lossy,
+          useTransparency ? transparentIndex : null,
+        )
+      : writerOutputLZWCodeStream(
+          this.buffer,
+          this.position,
+          minCodeSize < 2 ? 2 : minCodeSize,
+          indexStream,
+        )
+
+    if (end > this.buffer.length) {
+      this.rollback(start, wasEnded, was89a)
+      throw overflowError(end, this.buffer.length, start, frameIndex)
+    }
+
+    this.position = end
+    ++this.numFrames
+    return this.position
+  }
+
+  // Plain Text Extension: |text| drawn on a grid of character cells at
+  // (x, y), in colours from the global palette.  Only printable ASCII has a
+  // well defined look; browsers don't render these blocks at all.
+  public addPlainText(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    text: string,
+    options: PlainTextOptions = {},
+  ): number {
+    if (x < 0 || y < 0 || x > 65535 || y > 65535) {
+      throw new GifLimitError('x/y invalid.', 'position-out-of-range')
+    }
+
+    if (width <= 0 || height <= 0 || width > 65535 || height > 65535) {
+      throw new GifLimitError('Width/Height invalid.', 'dimensions-out-of-range')
+    }
+
+    if (this.globalPalette === null) {
+      throw new GifEncodeError('Plain text requires a global palette.', 'missing-palette')
+    }
+
+    const cellWidth = options.cellWidth ?? 6
+    const cellHeight = options.cellHeight ?? 8
+    if (cellWidth < 1 || cellWidth > 255 || cellHeight < 1 || cellHeight > 255) {
+      throw new GifLimitError('Cell size out of range.', 'cell-size-out-of-range')
+    }
+
+    const numColors = this.globalPalette.length
+    const foreground = options.foreground ?? 1
+    const background = options.background ?? 0
+    if (foreground < 0 || foreground >= numColors || background < 0 || background >= numColors) {
+      throw new GifLimitError('Plain text color index out of range.', 'color-index-out-of-range')
+    }
+
+    if (!isLatin1(text)) {
+      throw new GifEncodeError('Plain text must be single-byte characters.', 'invalid-text')
+    }
+
+    const delay = options.delay ?? 0
+    const disposal = options.disposal ?? 0
+    if (disposal < 0 || disposal > 3) {
+      throw new GifLimitError('Disposal out of range.', 'disposal-out-of-range')
+    }
+
+    const transparent = options.transparent ?? null
+    if (transparent !== null && (transparent < 0 || transparent >= numColors)) {
+      throw new GifLimitError('Transparent color index.', 'transparent-index-out-of-range')
+    }
+
+    const data = new Uint8Array(text.length)
+    for (let i = 0; i < text.length; ++i) data[i] = text.charCodeAt(i)
+
+    return this.writeExtension('plain text', 8 + 15 + subBlocksSize(data.length), () => {
+      if (disposal !== 0 || transparent !== null || delay !== 0)
+        this.writeGraphicsControlExtension(delay, disposal, transparent)
+
+      this.buffer[this.position++] = 0x21 // Extension Introducer
+      this.buffer[this.position++] = 0x01 // Plain Text Label
+      this.buffer[this.position++] = 12 // Block Size
+      this.buffer[this.position++] = x & 0xFF
+      this.buffer[this.position++] = x >> 8 & 0xFF
+      this.buffer[this.position++] = y & 0xFF
+      this.buffer[this.position++] = y >> 8 & 0xFF
+      this.buffer[this.position++] = width & 0xFF
+      this.buffer[this.position++] = width >> 8 & 0xFF
+      this.buffer[this.position++] = height & 0xFF
+      this.buffer[this.position++] = height >> 8 & 0xFF
+      this.buffer[this.position++] = cellWidth
+      this.buffer[this.position++] = cellHeight
+      this.buffer[this.position++] = foreground
+      this.buffer[this.position++] = background
+      this.writeSubBlocks(data)
+    })
+  }
+
+  // Comment Extension.  Strings are stored as UTF-8; plain ASCII is what
+  // the spec asks for, but every decoder just hands the bytes back.
+  public addComment(text: string | Uint8Array): number {
+    const data = typeof text === 'string' ? new TextEncoder().encode(text) : text
+
+    return this.writeExtension('comments', 2 + subBlocksSize(data.length), () => {
+      this.buffer[this.position++] = 0x21 // Extension Introducer
+      this.buffer[this.position++] = 0xFE // Comment Label
+      this.writeSubBlocks(data)
+    })
+  }
+
+  // Application Extension with an 8 character identifier and 3 character
+  // authentication code.  XMP ('XMP Data' + 'XMP') is written the way
+  // Adobe does it: the raw packet followed by the magic trailer.
+  public addApplicationExtension(identifier: string, authCode: string, data: Uint8Array): number {
+    if (identifier.length !== 8 || !isLatin1(identifier)) {
+      throw new GifEncodeError('Application identifier must be 8 characters.', 'invalid-application-id')
+    }
+
+    if (authCode.length !== 3 || !isLatin1(authCode)) {
+      throw new GifEncodeError('Application authentication code must be 3 characters.', 'invalid-application-id')
+    }
+
+    const xmp = identifier === 'XMP Data' && authCode === 'XMP'
+    if (xmp && data.includes(0)) {
+      throw new GifEncodeError('XMP data must not contain zero bytes.', 'invalid-xmp')
+    }
+
+    const size = 3 + 11 + (xmp ? data.length + 258 : subBlocksSize(data.length))
+    return this.writeExtension('application extensions', size, () => {
+      this.buffer[this.position++] = 0x21 // Extension Introducer
+      this.buffer[this.position++] = 0xFF // Application Extension Label
+      this.buffer[this.position++] = 0x0B // Block Size
+      for (let i = 0; i < 8; ++i)
+        this.buffer[this.position++] = identifier.charCodeAt(i)
+      for (let i = 0; i < 3; ++i)
+        this.buffer[this.position++] = authCode.charCodeAt(i)
+
+      if (xmp) {
+        this.buffer.set(data, this.position)
+        this.position += data.length
+        this.buffer[this.position++] = 0x01
+        for (let i = 0xFF; i >= 0; --i)
+          this.buffer[this.position++] = i
+        this.buffer[this.position++] = 0 // Block Terminator
+      }
+      else {
+        this.writeSubBlocks(data)
+      }
+    })
+  }
+
+  // Write a non-image block of |size| bytes at the current position, in
+  // front of the trailer if end() was already called.  |what| names the
+  // block for the error GIF87a gives; callers validate everything else
+  // first, so a rejected block leaves the header alone.
+  private writeExtension(what: string, size: number, write: () => void): number {
+    const wasEnded = this.ended
+    if (this.ended) {
+      --this.position
+      this.ended = false
+    }
+
+    const start = this.position
+    const was89a = this.is89a
+    try {
+      this.require89a(what)
+      this.reserve(size)
+    }
+    catch (err) {
+      this.rollback(start, wasEnded, was89a)
+      throw err
+    }
+
+    write()
 
+    if (wasEnded)
+      this.end()
     return this.position
   }
 
+  private writeGraphicsControlExtension(delay: number, disposal: number, transparent: number | null): void {
+    this.buffer[this.position++] = 0x21 // Extension Introducer
+    this.buffer[this.position++] = 0xF9 // Graphics Control Label
+    this.buffer[this.position++] = 4 // Byte Size
+    this.buffer[this.position++] = disposal << 2 | (transparent !== null ? 1 : 0)
+    this.buffer[this.position++] = delay & 0xFF
+    this.buffer[this.position++] = delay >> 8 & 0xFF
+    this.buffer[this.position++] = transparent ?? 0
+    this.buffer[this.position++] = 0 // Block Terminator
+  }
+
+  // |data| split into sub-blocks of at most 255 bytes, then the terminator.
+  // The caller reserves subBlocksSize(data.length) bytes first.
+  private writeSubBlocks(data: Uint8Array): void {
+    for (let p = 0; p < data.length; p += 255) {
+      const size = Math.min(255, data.length - p)
+      this.buffer[this.position++] = size
+      this.buffer.set(data.subarray(p, p + size), this.position)
+      this.position += size
+    }
+    this.buffer[this.position++] = 0 // Block Terminator
+  }
+
   public end(): number {
     if (!this.ended) {
+      this.reserve(1)
       this.buffer[this.position++] = 0x3B // Trailer Marker
       this.ended = true
     }
     return this.position
   }
 
+  // The version in the header right now; with 'auto' it can still go from
+  // 87a to 89a as more gets written.
+  public getVersion(): '87a' | '89a' {
+    return this.is89a ? '89a' : '87a'
+  }
+
   public getOutputBuffer(): Buffer {
     return this.buffer
   }
@@ -273,6 +586,56 @@ export class Writer {
   public setOutputBufferPosition(position: number): void {
     this.position = position
   }
+
+  // Copy of exactly the bytes written so far.
+  public toUint8Array(): Uint8Array {
+    return Uint8Array.from(this.buffer.subarray(0, this.position))
+  }
+}
+
+// |offset| is where the block that didn't fit starts.
+function overflowError(needed: number, capacity: number, offset: number, frame_index: number | null): GifBufferOverflowError {
+  return new GifBufferOverflowError(
+    `Output buffer overflow: ${needed} bytes needed but the buffer holds ${capacity}.`,
+    'buffer-overflow',
+    { offset, frameIndex: frame_index },
+  )
+}
+
+// Rows 0, 8, 16, ... then 4, 12, ... then 2, 6, ... then the odd rows.
+function interlace(pixels: Uint8Array, width: number, height: number): Uint8Array {
+  const out = new Uint8Array(width * height)
+  let op = 0
+  for (const [start, step] of INTERLACE_PASSES) {
+    for (let y = start; y < height; y += step) {
+      out.set(pixels.subarray(y * width, (y + 1) * width), op)
+      op += width
+    }
+  }
+  return out
+}
+
+function isLatin1(s: string): boolean {
+  for (let i = 0; i < s.length; ++i) {
+    if (s.charCodeAt(i) > 0xFF)
+      return false
+  }
+  return true
+}
+
+// Bytes taken by |length| bytes of data once split into sub-blocks,
+// terminator included.
+function subBlocksSize(length: number): number {
+  return length + Math.ceil(length / 255) + 1
+}
+
+// Worst case for writerOutputLZWCodeStream: one 12-bit code per index, plus
+// a clear code every ~4k codes, the leading clear + EOI, the min code size
+// byte, one length byte per 255-byte sub-block and the terminator.
+function lzwOutputBound(num_indices: number): number {
+  const codes = num_indices + Math.ceil(num_indices / 4000) + 3
+  const data = Math.ceil(codes * 12 / 8)
+  return 1 + data + Math.ceil(data / 255) + 2
 }
 
 // Main compression routine, palette indexes -> LZW code stream.
@@ -410,6 +773,11 @@ export function writerOutputLZWCodeStream(buf: Buffer, p: number, min_code_size:
   }
 
   emit_code(ib_code) // There will still be something in the index buffer.
+  // The decoder adds a table entry for that last code too, and grows its code
+  // size if the entry lands on the next power of two, so the EOI has to be
+  // written at that size or it reads past the end of the data.
+  if (next_code === 1 << cur_code_size && cur_code_size < 12)
+    ++cur_code_size
   emit_code(eoi_code) // End Of Information.
 
   // Flush / finalize the sub-blocks stream to the buffer.
@@ -428,3 +796,141 @@ export function writerOutputLZWCodeStream(buf: Buffer, p: number, min_code_size:
 
   return p
 }
+
+// Lossy variant of writerOutputLZWCodeStream, in the spirit of gifsicle's
+// --lossy.  When the current run has no table entry for the next index, a
+// run that continues with a *similar* colour is taken instead, as long as
+// it is within the tolerance (|lossy| 0 .. 200, where 0 is lossless).  Runs
+// get longer and the stream smaller, at the price of slightly wrong pixels.
+// |index_stream| is rewritten in place with what the decoder will see.
+// The transparent index is never substituted, in either direction.
+export function writerOutputLossyLZWCodeStream(
+  buf: Buffer,
+  p: number,
+  min_code_size: number,
+  index_stream: Uint8Array,
+  palette: number[],
+  lossy: number,
+  transparent_index: number | null = null,
+): number {
+  // Largest squared RGB distance a substituted colour may be off by;
+  // lossy 200 allows a distance of 60.
+  const max_dist = (lossy * 0.3) ** 2
+
+  buf[p++] = min_code_size
+  let cur_subblock = p++ // Pointing at the length field.
+
+  const clear_code = 1 << min_code_size
+  const code_mask = clear_code - 1
+  const eoi_code = clear_code + 1
+  let next_code = eoi_code + 1
+
+  let cur_code_size = min_code_size + 1 // Number of bits per code.
+  let cur_shift = 0
+  let cur = 0
+
+  function emit_code(c: number) {
+    cur |= c << cur_shift
+    cur_shift += cur_code_size
+    emit_bytes_to_buffer(8)
+  }
+
+  function emit_bytes_to_buffer(bit_block_size: number) {
+    while (cur_shift >= bit_block_size) {
+      buf[p++] = cur & 0xFF
+      cur >>= 8
+      cur_shift -= 8
+
+      if (p === cur_subblock + 256) { // Finished a subblock.
+        buf[cur_subblock] = 255
+        cur_subblock = p++
+      }
+    }
+  }
+
+  function distance(a: number, b: number): number {
+    const ca = palette[a] ?? 0
+    const cb = palette[b] ?? 0
+    const dr = (ca >> 16 & 0xFF) - (cb >> 16 & 0xFF)
+    const dg = (ca >> 8 & 0xFF) - (cb >> 8 & 0xFF)
+    const db = (ca & 0xFF) - (cb & 0xFF)
+    return dr * dr + dg * dg + db * db
+  }
+
+  // Same (prefix code, index) keyed table as the lossless encoder, plus the
+  // list of extensions of every code so near matches can be searched.
+  // Entries are packed as index << 12 | code.
+  let code_table: Record<number, number> = {}
+  let children: number[][] = []
+
+  let ib_code = index_stream[0] & code_mask
+  emit_code(clear_code)
+
+  for (let i = 1, il = index_stream.length; i < il; ++i) {
+    const k = index_stream[i] & code_mask
+    let cur_code = code_table[ib_code << 8 | k]
+
+    if (cur_code === undefined && k !== transparent_index && children[ib_code] !== undefined) {
+      let best = -1
+      let best_dist = max_dist
+      for (const entry of children[ib_code]) {
+        const j = entry >> 12
+        if (j === transparent_index)
+          continue
+        const d = distance(j, k)
+        if (d <= best_dist) {
+          best = entry
+          best_dist = d
+        }
+      }
+      if (best >= 0) {
+        cur_code = best & 0xFFF
+        index_stream[i] = best >> 12
+      }
+    }
+
+    if (cur_code === undefined) {
+      emit_code(ib_code)
+
+      if (next_code === 4096) { // Table full, need a clear.
+        emit_code(clear_code)
+        next_code = eoi_code + 1
+        cur_code_size = min_code_size + 1
+        code_table = {}
+        children = []
+      }
+      else {
+        if (next_code >= (1 << cur_code_size))
+          ++cur_code_size
+        code_table[ib_code << 8 | k] = next_code
+        const list = children[ib_code]
+        if (list)
+          list.push(k << 12 | next_code)
+        else
+          children[ib_code] = [k << 12 | next_code]
+        ++next_code
+      }
+
+      ib_code = k
+    }
+    else {
+      ib_code = cur_code
+    }
+  }
+
+  emit_code(ib_code)
+  if (next_code === 1 << cur_code_size && cur_code_size < 12) // See above.
+    ++cur_code_size
+  emit_code(eoi_code)
+  emit_bytes_to_buffer(1)
+
+  if (cur_subblock + 1 === p) { // Started but unused.
+    buf[cur_subblock] = 0
+  }
+  else {
+    buf[cur_subblock] = p - cur_subblock - 1
+    buf[p++] = 0
+  }
+
+  return p
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'bun:test'
+import { Buffer } from 'node:buffer'
+import { Compositor, Reader, Writer } from '../src/index'
+
+const PALETTE = [0x000000, 0xFF0000, 0x00FF00, 0x0000FF, 0xFFFFFF, 0, 0, 0]
+const T = [0, 0, 0, 0]
+const R = [255, 0, 0, 255]
+const G = [0, 255, 0, 255]
+const B = [0, 0, 255, 255]
+const W = [255, 255, 255, 255]
+
+// A 4×1 screen:
+//   0  full red, left in place
+//   1  green over the left half, disposal 2 (cleared afterwards)
+//   2  blue over the right half, disposal 3 (restored afterwards)
+//   3  white over the last pixel
+function sample(): Buffer {
+  const writer = new Writer(null, 4, 1, { palette: PALETTE, loop: 0 })
+  writer.addFrame(0, 0, 4, 1, Uint8Array.of(1, 1, 1, 1), { disposal: 1 })
+  writer.addFrame(0, 0, 2, 1, Uint8Array.of(2, 2), { disposal: 2 })
+  writer.addFrame(2, 0, 2, 1, Uint8Array.of(3, 3), { disposal: 3 })
+  writer.addFrame(3, 0, 1, 1, Uint8Array.of(4), { disposal: 1 })
+  writer.end()
+  return Buffer.from(writer.toUint8Array())
+}
+
+const EXPECTED = [
+  [R, R, R, R],
+  [G, G, R, R],
+  [T, T, B, B],
+  [T, T, R, W],
+]
+
+describe('Compositor', () => {
+  const reader = new Reader(sample())
+
+  it('applies disposal 2 and 3 between frames', () => {
+    const compositor = new Compositor(reader)
+    for (let i = 0; i < EXPECTED.length; i++)
+      expect(Array.from(compositor.renderFrame(i))).toEqual(EXPECTED[i].flat())
+  })
+
+  it('renders the same in any order', () => {
+    for (const keyframeInterval of [1, 2, 16]) {
+      const compositor = new Compositor(reader, { keyframeInterval })
+      for (const i of [3, 0, 2, 2, 1, 3, 0])
+        expect(Array.from(compositor.renderFrame(i))).toEqual(EXPECTED[i].flat())
+      compositor.clearCache()
+      expect(Array.from(compositor.renderFrame(3))).toEqual(EXPECTED[3].flat())
+    }
+  })
+
+  it('writes into a given buffer and backs Reader.renderFrame()', () => {
+    const out = new Uint8Array(16).fill(9)
+    expect(new Compositor(reader).renderFrame(2, out)).toBe(out)
+    expect(Array.from(out)).toEqual(EXPECTED[2].flat())
+    expect(Array.from(reader.renderFrame(3))).toEqual(EXPECTED[3].flat())
+  })
+
+  it('rejects bad frame indices and buffers', () => {
+    const compositor = new Compositor(reader)
+    expect(() => compositor.renderFrame(4)).toThrow()
+    expect(() => compositor.renderFrame(0, new Uint8Array(15))).toThrow()
+  })
+})
+
+describe('Compositor plain text', () => {
+  // A black 8×8 screen, a red 'A' over it, then a white pixel in the corner.
+  function withText(disposal: number): Reader {
+    const writer = new Writer(null, 8, 8, { palette: PALETTE })
+    writer.addFrame(0, 0, 8, 8, new Uint8Array(64), { disposal: 1 })
+    writer.addPlainText(0, 0, 6, 8, 'A', { foreground: 1, background: 0, transparent: 0, disposal })
+    writer.addFrame(7, 7, 1, 1, Uint8Array.of(4), { disposal: 1 })
+    writer.end()
+    return new Reader(Buffer.from(writer.toUint8Array()))
+  }
+
+  const red = (rgba: Uint8Array) => Array.from({ length: 64 }, (_, p) => rgba[p * 4] === 255 && rgba[p * 4 + 1] === 0).filter(Boolean).length
+
+  it('keeps text that stays in place', () => {
+    for (const disposal of [0, 1]) {
+      const rgba = new Compositor(withText(disposal), { plainText: true }).renderFrame(1)
+      expect(red(rgba)).toBeGreaterThan(0)
+    }
+  })
+
+  it('applies the text\'s own disposal before the next frame', () => {
+    for (const disposal of [2, 3]) {
+      const rgba = new Compositor(withText(disposal), { plainText: true }).renderFrame(1)
+      expect(red(rgba)).toBe(0)
+      // Disposal 2 clears the grid, disposal 3 brings the black back.
+      expect(rgba[3]).toBe(disposal === 2 ? 0 : 255)
+      expect(Array.from(rgba.subarray(63 * 4))).toEqual(W)
+    }
+  })
+})
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'bun:test'
+import { Buffer } from 'node:buffer'
+import { concat, GifEncodeError, Reader, validate, Writer } from '../src/index'
+
+/** A solid `colour` clip of `numFrames` frames, 10 hundredths each. */
+function clip(width: number, height: number, colour: number, numFrames = 2, loop: number | null = 0): Uint8Array {
+  const writer = new Writer(null, width, height, { palette: [0x000000, colour], loop })
+  for (let f = 0; f < numFrames; f++)
+    writer.addFrame(0, 0, width, height, new Uint8Array(width * height).fill(1), { delay: 10 })
+  writer.end()
+  return writer.toUint8Array()
+}
+
+/** Colour of pixel `(x, y)` of frame `i`, `null` where it is see-through. */
+function colourAt(reader: Reader, i: number, x: number, y: number): number | null {
+  const rgba = reader.renderFrame(i)
+  const o = (y * reader.getWidth() + x) * 4
+  return rgba[o + 3] === 0 ? null : rgba[o] << 16 | rgba[o + 1] << 8 | rgba[o + 2]
+}
+
+describe('concat', () => {
+  it('plays clips one after another, sharing one palette', () => {
+    const out = concat([clip(4, 4, 0xFF0000), clip(4, 4, 0x0000FF, 1, 3)])
+    const reader = new Reader(Buffer.from(out))
+    expect(validate(out)).toEqual([])
+    expect(reader.numFrames()).toBe(3)
+    expect(reader.getLoopCount()).toBe(0)
+    expect([0, 1, 2].map(i => colourAt(reader, i, 0, 0))).toEqual([0xFF0000, 0xFF0000, 0x0000FF])
+    expect([0, 1, 2].map(i => reader.frameInfo(i).has_local_palette)).toEqual([false, false, false])
+    // The last frame of each clip clears its box for the next.
+    expect(reader.frameInfo(1).disposal).toBe(2)
+
+    expect(new Reader(Buffer.from(concat([clip(4, 4, 0xFF0000)], { loop: null }))).getLoopCount()).toBeNull()
+  })
+
+  it('letterboxes or stretches clips of another size', () => {
+    const boxed = new Reader(Buffer.from(concat([clip(4, 4, 0xFF0000), clip(4, 2, 0x0000FF)])))
+    expect(boxed.frameInfo(2)).toMatchObject({ x: 0, y: 1, width: 4, height: 2 })
+    expect(colourAt(boxed, 2, 0, 0)).toBeNull()
+    expect(colourAt(boxed, 2, 0, 1)).toBe(0x0000FF)
+
+    const stretched = new Reader(Buffer.from(concat([clip(4, 4, 0xFF0000), clip(2, 1, 0x0000FF)], { fit: 'scale' })))
+    expect(stretched.frameInfo(2)).toMatchObject({ x: 0, y: 0, width: 4, height: 4 })
+    expect(colourAt(stretched, 2, 3, 3)).toBe(0x0000FF)
+
+    const wide = new Reader(Buffer.from(concat([clip(4, 4, 0xFF0000)], { width: 8, height: 4 })))
+    expect([wide.getWidth(), wide.getHeight()]).toEqual([8, 4])
+    expect(wide.frameInfo(0)).toMatchObject({ x: 2, y: 0, width: 4, height: 4 })
+  })
+
+  it('keeps metadata of scaled clips, scaling plain text with them', () => {
+    const writer = new Writer(null, 16, 16, { palette: [0x000000, 0x00FF00] })
+    writer.addApplicationExtension('XMP Data', 'XMP', new TextEncoder().encode('<x/>'))
+    writer.addFrame(0, 0, 16, 16, new Uint8Array(256).fill(1), { delay: 10 })
+    writer.addComment('scaled')
+    writer.addPlainText(4, 0, 12, 8, 'AB', { foreground: 1, background: 0 })
+    writer.addFrame(0, 0, 16, 16, new Uint8Array(256), { delay: 10 })
+    writer.end()
+
+    const reader = new Reader(Buffer.from(concat([clip(8, 8, 0xFF0000), writer.toUint8Array()])))
+    expect(reader.getApplicationExtensions().map(a => [a.identifier, a.frameIndex])).toEqual([['XMP Data', 2]])
+    expect(reader.getComments().map(c => [c.text, c.frameIndex])).toEqual([['scaled', 3]])
+    expect(reader.getPlainTexts()).toMatchObject([{ x: 2, y: 0, width: 6, height: 4, cell_width: 3, cell_height: 4, text: 'AB', frame_index: 3 }])
+  })
+
+  it('rejects no input and unknown fits', () => {
+    const codes = [
+      () => concat([]),
+      () => concat([clip(2, 2, 0xFF0000)], { fit: 'crop' as 'scale' }),
+    ].map((call) => {
+      try {
+        call()
+      }
+      catch (e) {
+        expect(e).toBeInstanceOf(GifEncodeError)
+        return (e as GifEncodeError).code
+      }
+      return null
+    })
+    expect(codes).toEqual(['no-frames', 'invalid-option'])
+  })
+})
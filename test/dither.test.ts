@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'bun:test'
+import { dither } from '../src/index'
+
+const BW = [0x000000, 0xFFFFFF]
+
+/** Grey RGBA image, fully opaque. */
+function grey(width: number, height: number, level: number): Uint8Array {
+  const rgba = new Uint8Array(width * height * 4)
+  for (let p = 0; p < width * height; p++)
+    rgba.set([level, level, level, 255], p * 4)
+  return rgba
+}
+
+describe('dither', () => {
+  const methods = ['none', 'floyd-steinberg', 'atkinson', 'sierra', 'bayer'] as const
+
+  for (const method of methods) {
+    it(`keeps palette colours exact with ${method}`, () => {
+      const palette = [0x000000, 0xFF0000, 0x00FF00, 0x0000FF]
+      const rgba = new Uint8Array(16 * 4)
+      for (let p = 0; p < 16; p++) {
+        const c = palette[p % 4]
+        rgba.set([c >> 16, c >> 8 & 0xFF, c & 0xFF, 255], p * 4)
+      }
+      expect(Array.from(dither(rgba, 4, 4, palette, { method }))).toEqual(Array.from({ length: 16 }, (_, p) => p % 4))
+    })
+  }
+
+  for (const method of ['floyd-steinberg', 'atkinson', 'sierra', 'bayer'] as const) {
+    it(`mixes black and white into mid grey with ${method}`, () => {
+      const indices = dither(grey(16, 16, 128), 16, 16, BW, { method })
+      const white = indices.filter(i => i === 1).length / indices.length
+      expect(white).toBeGreaterThan(0.35)
+      expect(white).toBeLessThan(0.65)
+    })
+  }
+
+  it('maps to the nearest colour at strength 0', () => {
+    const rgba = grey(8, 8, 140)
+    expect(Array.from(dither(rgba, 8, 8, BW, { strength: 0 }))).toEqual(Array.from({ length: 64 }, () => 1))
+    expect(dither(rgba, 8, 8, BW, { method: 'bayer', strength: 0 })).toEqual(dither(rgba, 8, 8, BW, { method: 'none' }))
+  })
+
+  it('repeats the Bayer pattern in both directions', () => {
+    const indices = dither(grey(16, 16, 100), 16, 16, BW, { method: 'bayer', bayerSize: 4 })
+    for (let y = 0; y < 16; y++) {
+      for (let x = 0; x < 16; x++)
+        expect(indices[y * 16 + x]).toBe(indices[(y % 4) * 16 + x % 4])
+    }
+  })
+
+  it('sends see-through pixels to the transparent index only', () => {
+    const rgba = grey(4, 4, 255)
+    for (let p = 0; p < 16; p += 2)
+      rgba[p * 4 + 3] = 0
+    const palette = [0x000000, 0xFFFFFF, 0xFFFFFF]
+    for (const method of methods) {
+      const indices = dither(rgba, 4, 4, palette, { method, transparent: 2 })
+      expect(Array.from(indices)).toEqual(Array.from({ length: 16 }, (_, p) => (p % 2 === 0 ? 2 : 1)))
+    }
+  })
+
+  it('rejects bad arguments', () => {
+    const rgba = grey(4, 4, 0)
+    expect(() => dither(rgba, 0, 4, BW)).toThrow()
+    expect(() => dither(rgba, 5, 4, BW)).toThrow()
+    expect(() => dither(rgba, 4, 4, [])).toThrow()
+    expect(() => dither(rgba, 4, 4, BW, { transparent: 2 })).toThrow()
+    expect(() => dither(rgba, 4, 4, BW, { strength: 2 })).toThrow()
+    expect(() => dither(rgba, 4, 4, BW, { method: 'bayer', bayerSize: 3 as 2 })).toThrow()
+  })
+})
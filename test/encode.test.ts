@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'bun:test'
+import { Buffer } from 'node:buffer'
+import { encodeAnimation, Reader } from '../src/index'
+
+/** Full-canvas RGBA frame from a per-pixel `[r, g, b, a]` function. */
+function frame(width: number, height: number, pixel: (x: number, y: number) => number[]): Uint8Array {
+  const rgba = new Uint8Array(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++)
+      rgba.set(pixel(x, y), (y * width + x) * 4)
+  }
+  return rgba
+}
+
+describe('encodeAnimation', () => {
+  const red = frame(8, 8, () => [255, 0, 0, 255])
+  const checker = frame(8, 8, (x, y) => ((x + y) % 2 ? [0, 0, 255, 255] : [255, 255, 255, 255]))
+
+  it('round-trips exact colours through a shared global palette', () => {
+    const gif = encodeAnimation({ width: 8, height: 8, frames: [{ rgba: red, delay: 100 }, { rgba: checker, delay: 250 }] })
+    const reader = new Reader(Buffer.from(gif))
+
+    expect(reader.numFrames()).toBe(2)
+    expect(reader.getLoopCount()).toBe(0)
+    expect(reader.getGlobalPalette()).not.toBeNull()
+    expect(reader.frameInfo(0).has_local_palette).toBe(false)
+    expect(reader.frameInfo(0).delay).toBe(10)
+    expect(reader.frameInfo(1).delay).toBe(25)
+    expect(reader.renderFrame(0)).toEqual(red)
+    expect(reader.renderFrame(1)).toEqual(checker)
+  })
+
+  it('uses local palettes when asked to', () => {
+    const gif = encodeAnimation({ width: 8, height: 8, frames: [{ rgba: red }, { rgba: checker }], palette: 'local' })
+    const reader = new Reader(Buffer.from(gif))
+    expect(reader.frameInfo(0).has_local_palette).toBe(true)
+    expect(reader.frameInfo(1).has_local_palette).toBe(true)
+    expect(reader.renderFrame(1)).toEqual(checker)
+  })
+
+  it('requantizes frames with too many colours', () => {
+    const gradient = frame(32, 32, (x, y) => [x * 8, y * 8, 128, 255])
+    const gif = encodeAnimation({ width: 32, height: 32, frames: [{ rgba: gradient }], maxColors: 16, dither: 'bayer' })
+    const reader = new Reader(Buffer.from(gif))
+    expect(reader.numFrames()).toBe(1)
+    expect(reader.getFramePalette(0)!.length).toBeLessThanOrEqual(16)
+    // Single images don't get a loop block.
+    expect(reader.getLoopCount()).toBeNull()
+
+    const out = reader.renderFrame(0)
+    let error = 0
+    for (let i = 0; i < out.length; i++)
+      error += Math.abs(out[i] - gradient[i])
+    expect(error / out.length).toBeLessThan(24)
+  })
+
+  it('clears frames that the next frame shows through', () => {
+    const hole = frame(8, 8, (x, y) => (x < 4 && y < 4 ? [0, 0, 0, 0] : [0, 255, 0, 255]))
+    const gif = encodeAnimation({ width: 8, height: 8, frames: [{ rgba: red }, { rgba: hole }], loop: 3 })
+    const reader = new Reader(Buffer.from(gif))
+
+    expect(reader.getLoopCount()).toBe(3)
+    expect(reader.frameInfo(0).disposal).toBe(2)
+    expect(reader.frameInfo(1).transparent_index).not.toBeNull()
+    const out = reader.renderFrame(1)
+    expect(Array.from(out.subarray(0, 4))).toEqual([0, 0, 0, 0])
+    expect(Array.from(out.subarray(7 * 4, 8 * 4))).toEqual([0, 255, 0, 255])
+  })
+
+  it('rejects bad input', () => {
+    expect(() => encodeAnimation({ width: 0, height: 8, frames: [{ rgba: red }] })).toThrow()
+    expect(() => encodeAnimation({ width: 8, height: 8, frames: [] })).toThrow()
+    expect(() => encodeAnimation({ width: 9, height: 8, frames: [{ rgba: red }] })).toThrow()
+  })
+})
@@ -0,0 +1,144 @@
+import type { GifErrorCode } from '../src/index'
+import { describe, expect, it } from 'bun:test'
+import { Buffer } from 'node:buffer'
+import {
+  compareFrames,
+  dither,
+  encodeAnimation,
+  GifBufferOverflowError,
+  GifEncodeError,
+  GifError,
+  GifFormatError,
+  GifLimitError,
+  padPalette,
+  quantize,
+  Reader,
+  readerLZWOutputIndexStream,
+  reencode,
+  Writer,
+  writerOutputLZWCodeStream,
+} from '../src/index'
+
+/** The error `fn` throws, failing the test if it doesn't. */
+function thrown(fn: () => unknown): GifError {
+  try {
+    fn()
+  }
+  catch (e) {
+    expect(e).toBeInstanceOf(GifError)
+    return e as GifError
+  }
+  throw new Error('Expected a GifError.')
+}
+
+function expectError(fn: () => unknown, type: typeof GifError, code: GifErrorCode): GifError {
+  const error = thrown(fn)
+  expect(error).toBeInstanceOf(type)
+  expect(error.code).toBe(code)
+  return error
+}
+
+function gif(width: number, height: number, frames: Uint8Array[]): Uint8Array {
+  const writer = new Writer(null, width, height, { palette: [0x000000, 0xFFFFFF], loop: 0 })
+  for (const pixels of frames)
+    writer.addFrame(0, 0, width, height, pixels, { delay: 10 })
+  writer.end()
+  return writer.toUint8Array()
+}
+
+describe('GifError', () => {
+  it('carries a code, offset and frame index', () => {
+    const error = new GifFormatError('Bad.', 'truncated', { offset: 12, frameIndex: 3 })
+    expect(error).toBeInstanceOf(Error)
+    expect(error.name).toBe('GifFormatError')
+    expect(error.message).toBe('Bad.')
+    expect([error.code, error.offset, error.frameIndex]).toEqual(['truncated', 12, 3])
+    expect(new GifLimitError('Bad.', 'dimensions-out-of-range').offset).toBeNull()
+  })
+
+  it('is what Reader throws for broken input', () => {
+    expectError(() => new Reader(Buffer.from('GIF90a')), GifFormatError, 'invalid-header')
+
+    const bytes = gif(2, 2, [Uint8Array.of(0, 1, 1, 0)])
+    const cut = expectError(() => new Reader(Buffer.from(bytes.subarray(0, bytes.length - 4))), GifFormatError, 'truncated')
+    expect(cut.offset).not.toBeNull()
+    expect(cut.frameIndex).toBe(0)
+
+    const reader = new Reader(Buffer.from(bytes))
+    expect(expectError(() => reader.frameInfo(1), GifLimitError, 'frame-index-out-of-range').frameIndex).toBe(1)
+  })
+
+  it('is what Writer throws for bad arguments', () => {
+    const writer = new Writer(Buffer.alloc(64), 2, 2, { palette: [0, 0xFFFFFF] })
+    expectError(() => new Writer(null, 0, 2), GifLimitError, 'dimensions-out-of-range')
+    expectError(() => new Writer(null, 2, 2, { palette: [0, 0x1000000] }), GifEncodeError, 'invalid-palette')
+    expectError(() => writer.addFrame(0, 0, 2, 2, Uint8Array.of(0)), GifEncodeError, 'not-enough-pixels')
+    expectError(() => writer.addFrame(0, 0, 2, 2, new Uint8Array(4), { disposal: 9 }), GifLimitError, 'disposal-out-of-range')
+    expectError(() => writer.addFrame(0, 0, 2, 2, new Uint8Array(4), { lossy: 300 }), GifLimitError, 'lossy-out-of-range')
+    expectError(() => writer.addComment('x'.repeat(100)), GifBufferOverflowError, 'buffer-overflow')
+  })
+})
+
+describe('encoding errors', () => {
+  const rgba = new Uint8Array(4 * 4 * 4).fill(255)
+
+  it('quantize()', () => {
+    expectError(() => quantize(rgba, 0, 4), GifLimitError, 'dimensions-out-of-range')
+    expectError(() => quantize(rgba, 8, 4), GifEncodeError, 'not-enough-pixels')
+    expectError(() => quantize(rgba, 4, 4, { maxColors: 300 }), GifLimitError, 'palette-size-out-of-range')
+    // The method only matters once colours have to be reduced.
+    const colourful = rgba.map((v, i) => (i % 4 === 3 ? 255 : i * 16))
+    expectError(() => quantize(colourful, 4, 4, { method: 'kmeans' as 'octree', maxColors: 2 }), GifEncodeError, 'invalid-option')
+    expectError(() => padPalette(new Array(257).fill(0)), GifLimitError, 'palette-size-out-of-range')
+  })
+
+  it('dither()', () => {
+    const palette = [0, 0xFFFFFF]
+    expectError(() => dither(rgba, 4, 0, palette), GifLimitError, 'dimensions-out-of-range')
+    expectError(() => dither(rgba, 4, 8, palette), GifEncodeError, 'not-enough-pixels')
+    expectError(() => dither(rgba, 4, 4, []), GifLimitError, 'palette-size-out-of-range')
+    expectError(() => dither(rgba, 4, 4, palette, { transparent: 5 }), GifLimitError, 'transparent-index-out-of-range')
+    expectError(() => dither(rgba, 4, 4, palette, { strength: -1 }), GifLimitError, 'dither-strength-out-of-range')
+    expectError(() => dither(rgba, 4, 4, palette, { method: 'bayer', bayerSize: 16 as 8 }), GifLimitError, 'bayer-size-out-of-range')
+    expectError(() => dither(rgba, 4, 4, palette, { method: 'random' as 'bayer' }), GifEncodeError, 'invalid-option')
+  })
+
+  it('encodeAnimation()', () => {
+    expectError(() => encodeAnimation({ width: 70000, height: 4, frames: [{ rgba }] }), GifLimitError, 'dimensions-out-of-range')
+    expectError(() => encodeAnimation({ width: 4, height: 4, frames: [] }), GifEncodeError, 'no-frames')
+    const short = expectError(() => encodeAnimation({ width: 4, height: 4, frames: [{ rgba }, { rgba: rgba.subarray(4) }] }), GifEncodeError, 'not-enough-pixels')
+    expect(short.frameIndex).toBe(1)
+  })
+
+  it('compareFrames() and reencode()', () => {
+    const a = gif(2, 2, [new Uint8Array(4), Uint8Array.of(1, 1, 1, 1)])
+    expectError(() => compareFrames(a, gif(2, 3, [new Uint8Array(6)])), GifLimitError, 'dimensions-out-of-range')
+    expectError(() => compareFrames(a, gif(2, 2, [new Uint8Array(4)])), GifLimitError, 'playing-time-mismatch')
+
+    // A frame without any colour table: drop the local one and its flag.
+    const writer = new Writer(null, 2, 2)
+    writer.addFrame(0, 0, 2, 2, new Uint8Array(4), { palette: [0, 0xFFFFFF] })
+    writer.end()
+    const bytes = writer.toUint8Array()
+    const table = new Reader(Buffer.from(bytes)).frameInfo(0).data_offset - 6
+    const noPalette = Uint8Array.from([...bytes.subarray(0, table), ...bytes.subarray(table + 6)])
+    noPalette[table - 1] &= 0x7F
+    expectError(() => reencode(noPalette), GifFormatError, 'missing-palette')
+  })
+})
+
+describe('readerLZWOutputIndexStream', () => {
+  it('stops quietly at a code that isn\'t in the table', () => {
+    const out = Buffer.alloc(16)
+    const size = writerOutputLZWCodeStream(out, 0, 2, Uint8Array.of(1, 2, 3, 1, 2, 3))
+    const decoded = readerLZWOutputIndexStream(out.subarray(0, size), 0, new Uint8Array(6), 6)
+    expect(Array.from(decoded)).toEqual([1, 2, 3, 1, 2, 3])
+
+    // Code size 2, one sub-block: clear (4), 1, then 7, which the table
+    // doesn't have yet (next free code is 6).
+    const corrupt = Uint8Array.of(2, 2, 4 | 1 << 3 | 7 << 6, 7 >> 2, 0)
+    const output = new Uint8Array(4).fill(9)
+    expect(() => readerLZWOutputIndexStream(corrupt, 0, output, 4)).not.toThrow()
+    expect(Array.from(output)).toEqual([1, 9, 9, 9])
+  })
+})
@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'bun:test'
+import { Buffer } from 'node:buffer'
+import { Compositor, concat, GifEncodeError, optimize, Reader, Writer } from '../src/index'
+
+const PALETTE = [0x000000, 0xFFFFFF]
+const PIXELS = new Uint8Array([0, 1, 1, 0])
+
+function read(writer: Writer): Reader {
+  writer.end()
+  return new Reader(Buffer.from(writer.toUint8Array()))
+}
+
+describe('comments', () => {
+  it('round-trip with their position among the frames', () => {
+    const long = 'x'.repeat(600)
+    const writer = new Writer(null, 2, 2, { palette: PALETTE })
+    writer.addComment('before everything')
+    writer.addFrame(0, 0, 2, 2, PIXELS)
+    writer.addComment(long)
+    writer.addComment(Uint8Array.of(0xC3, 0xA9, 0x00, 0xFF))
+    writer.addFrame(0, 0, 2, 2, PIXELS)
+    writer.addComment('grüße ✓')
+    const reader = read(writer)
+
+    const comments = reader.getComments()
+    expect(comments.map(c => [c.text, c.frameIndex])).toEqual([
+      ['before everything', 0],
+      [long, 1],
+      ['é\0�', 1],
+      ['grüße ✓', 2],
+    ])
+    expect(Array.from(comments[2].data)).toEqual([0xC3, 0xA9, 0x00, 0xFF])
+    expect(reader.numFrames()).toBe(2)
+  })
+
+  it('can be added after end()', () => {
+    const writer = new Writer(null, 2, 2, { palette: PALETTE })
+    writer.addFrame(0, 0, 2, 2, PIXELS)
+    writer.end()
+    writer.addComment('late')
+    const bytes = writer.toUint8Array()
+    expect(bytes.at(-1)).toBe(0x3B)
+    expect(new Reader(Buffer.from(bytes)).getComments().map(c => c.text)).toEqual(['late'])
+  })
+
+  it('need GIF89a', () => {
+    const writer = new Writer(null, 2, 2, { palette: PALETTE, version: '87a' })
+    expect(() => writer.addComment('no')).toThrow(GifEncodeError)
+  })
+})
+
+describe('application extensions', () => {
+  it('round-trip custom blocks and XMP, and leave the loop block alone', () => {
+    const xmp = new TextEncoder().encode('<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF/></x:xmpmeta>')
+    const blob = Uint8Array.from({ length: 700 }, (_, i) => i & 0xFF)
+    const writer = new Writer(null, 2, 2, { palette: PALETTE, loop: 4 })
+    writer.addApplicationExtension('XMP Data', 'XMP', xmp)
+    writer.addFrame(0, 0, 2, 2, PIXELS)
+    writer.addApplicationExtension('EXAMPLE1', '1.0', blob)
+    const reader = read(writer)
+
+    expect(reader.getLoopCount()).toBe(4)
+    const apps = reader.getApplicationExtensions()
+    expect(apps.map(a => [a.identifier, a.authCode, a.frameIndex])).toEqual([
+      ['XMP Data', 'XMP', 0],
+      ['EXAMPLE1', '1.0', 1],
+    ])
+    expect(apps[0].data).toEqual(xmp)
+    expect(apps[1].data).toEqual(blob)
+  })
+
+  it('reject bad identifiers and XMP with zero bytes', () => {
+    const writer = new Writer(null, 2, 2, { palette: PALETTE })
+    const codes = [
+      () => writer.addApplicationExtension('SHORT', '1.0', Uint8Array.of(1)),
+      () => writer.addApplicationExtension('EXAMPLE1', '1', Uint8Array.of(1)),
+      () => writer.addApplicationExtension('XMP Data', 'XMP', Uint8Array.of(60, 0, 62)),
+    ].map((call) => {
+      try {
+        call()
+      }
+      catch (e) {
+        return (e as GifEncodeError).code
+      }
+      return null
+    })
+    expect(codes).toEqual(['invalid-application-id', 'invalid-application-id', 'invalid-xmp'])
+    expect(read(writer).getApplicationExtensions()).toEqual([])
+  })
+})
+
+describe('plain text', () => {
+  const palette = [0x000000, 0xFFFFFF, 0xFF0000, 0x0000FF]
+
+  function sample(): Uint8Array {
+    const writer = new Writer(null, 16, 8, { palette, loop: 0 })
+    writer.addFrame(0, 0, 16, 8, new Uint8Array(128).fill(3), { delay: 10 })
+    writer.addPlainText(2, 0, 12, 8, 'AB', { cellWidth: 6, cellHeight: 8, foreground: 2, background: 0, delay: 20, transparent: 0 })
+    writer.addFrame(0, 0, 16, 8, new Uint8Array(128).fill(1), { delay: 10 })
+    writer.end()
+    return writer.toUint8Array()
+  }
+
+  it('round-trips the grid, colours and timing', () => {
+    const reader = new Reader(Buffer.from(sample()))
+    const [text] = reader.getPlainTexts()
+    expect(text).toMatchObject({
+      x: 2,
+      y: 0,
+      width: 12,
+      height: 8,
+      cell_width: 6,
+      cell_height: 8,
+      foreground_index: 2,
+      background_index: 0,
+      text: 'AB',
+      transparent_index: 0,
+      delay: 20,
+      frame_index: 1,
+    })
+    // The text's graphics control block doesn't leak into the next frame.
+    expect(reader.frameInfo(1).transparent_index).toBeNull()
+    expect(reader.frameInfo(1).delay).toBe(10)
+  })
+
+  it('rasterizes with the built-in font', () => {
+    const reader = new Reader(Buffer.from(sample()))
+    const red = (rgba: Uint8Array) => Array.from({ length: 128 }, (_, p) => rgba[p * 4] === 255 && rgba[p * 4 + 1] === 0).filter(Boolean).length
+
+    const pixels = new Uint8Array(16 * 8 * 4)
+    reader.decodeAndBlitFrameRGBA(0, pixels)
+    reader.decodeAndBlitPlainTextRGBA(0, pixels)
+    expect(red(pixels)).toBeGreaterThan(0)
+    // Nothing outside the grid, and background cells are see-through.
+    expect(Array.from(pixels.subarray(0, 4))).toEqual([0, 0, 255, 255])
+    expect(Array.from(pixels.subarray(15 * 4, 16 * 4))).toEqual([0, 0, 255, 255])
+
+    // Browsers don't draw them, so neither does the compositor by default.
+    const plain = new Compositor(reader).renderFrame(0)
+    expect(red(plain)).toBe(0)
+  })
+
+  it('survives optimize() with its colours remapped', () => {
+    for (const [name, gif] of [['global', sample()], ['local', withLocalFrames()]] as const) {
+      const out = optimize(gif, { force: true })
+      const reader = new Reader(Buffer.from(out))
+      const [text] = reader.getPlainTexts()
+      expect(text, name).toMatchObject({ x: 2, width: 12, text: 'AB', delay: 20, frame_index: 1 })
+      const global = reader.getGlobalPalette()!
+      expect(global[text.foreground_index]).toBe(0xFF0000)
+      expect(global[text.background_index]).toBe(0x000000)
+      expect(text.transparent_index).toBe(text.background_index)
+    }
+  })
+
+  it('survives concat() at its clip\'s position', () => {
+    const out = concat([sample(), sample()])
+    const texts = new Reader(Buffer.from(out)).getPlainTexts()
+    expect(texts.map(t => [t.text, t.frame_index])).toEqual([['AB', 1], ['AB', 3]])
+  })
+
+  // Same picture, but with more colours than one palette holds, so every
+  // frame keeps a local one and the global palette only holds the text's.
+  function withLocalFrames(): Uint8Array {
+    const writer = new Writer(null, 16, 8, { palette: [0x000000, 0xFF0000], loop: 0 })
+    const all = Uint8Array.from({ length: 128 }, (_, p) => p)
+    writer.addFrame(0, 0, 16, 8, all, { palette: Array.from({ length: 128 }, (_, n) => n * 2 + 1), delay: 10 })
+    writer.addPlainText(2, 0, 12, 8, 'AB', { foreground: 1, background: 0, delay: 20, transparent: 0 })
+    writer.addFrame(0, 0, 16, 8, all, { palette: Array.from({ length: 128 }, (_, n) => 0x10000 + n), delay: 10 })
+    writer.end()
+    return writer.toUint8Array()
+  }
+})
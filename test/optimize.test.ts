@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'bun:test'
+import { Buffer } from 'node:buffer'
+import { compareFrames, optimize, optimizeWithReport, Reader, reencode, validate, Writer } from '../src/index'
+
+const GREYS = Array.from({ length: 256 }, (_, n) => n * 0x010101)
+
+/** Noisy grey gradients, the kind of picture lossy LZW is for. */
+function noisy(numFrames: number): Uint8Array {
+  let seed = 1
+  const random = () => (seed = seed * 16807 % 2147483647) / 2147483647
+  const writer = new Writer(null, 64, 64, { palette: GREYS, loop: 0 })
+  for (let f = 0; f < numFrames; f++) {
+    const pixels = Uint8Array.from({ length: 64 * 64 }, (_, p) =>
+      Math.min(255, (p % 64) * 3 + f * 10 + Math.floor(random() * 12)))
+    writer.addFrame(0, 0, 64, 64, pixels, { delay: 8 })
+  }
+  writer.end()
+  return writer.toUint8Array()
+}
+
+/** Delay of every frame, for comparing timelines. */
+function delays(gif: Uint8Array): number[] {
+  const reader = new Reader(Buffer.from(gif))
+  return Array.from({ length: reader.numFrames() }, (_, i) => reader.frameInfo(i).delay)
+}
+
+describe('lossy', () => {
+  const input = noisy(3)
+
+  it('trades a little accuracy for size', () => {
+    const lossless = optimizeWithReport(input, { force: true })
+    const lossy = optimizeWithReport(input, { force: true, lossy: 80 })
+
+    expect(lossless.difference.changedPixels).toBe(0)
+    expect(lossy.outputSize).toBeLessThan(lossless.outputSize)
+    expect(lossy.difference.changedPixels).toBeGreaterThan(0)
+    expect(lossy.difference.meanError).toBeLessThan(10)
+    expect(lossy.difference.totalPixels).toBe(64 * 64 * 3)
+    expect(lossy.difference).toEqual(compareFrames(input, lossy.data))
+  })
+
+  it('keeps the file valid and the timeline as it was', () => {
+    for (const level of [1, 80, 200]) {
+      const out = reencode(input, { lossy: level })
+      expect(validate(out)).toEqual([])
+      expect(delays(out)).toEqual(delays(input))
+      expect(new Reader(Buffer.from(out)).getLoopCount()).toBe(0)
+    }
+  })
+
+  it('allows more error at higher levels', () => {
+    const low = compareFrames(input, reencode(input, { lossy: 20 }))
+    const high = compareFrames(input, reencode(input, { lossy: 200 }))
+    expect(high.meanError).toBeGreaterThan(low.meanError)
+  })
+
+  it('rejects levels outside 0 .. 200', () => {
+    expect(() => reencode(input, { lossy: 201 })).toThrow()
+    expect(() => reencode(input, { lossy: -1 })).toThrow()
+    // optimize() falls back to the input instead.
+    expect(optimize(input, { lossy: 201 })).toBe(input)
+  })
+})
+
+describe('inter-frame deltas', () => {
+  // A 64×64 screen recording: a still background with a small square
+  // moving across it, every frame stored in full.
+  function recording(): Uint8Array {
+    const palette = [0x202020, 0xE0E0E0, 0xFF0000, 0x00FF00]
+    const writer = new Writer(null, 64, 64, { palette, loop: 3 })
+    for (let f = 0; f < 6; f++) {
+      const pixels = Uint8Array.from({ length: 64 * 64 }, (_, p) => {
+        const x = p % 64
+        const y = p >> 6
+        if (x >= 10 + f * 4 && x < 18 + f * 4 && y >= 20 && y < 28) return 2
+        return (x >> 3) + (y >> 3) & 1
+      })
+      writer.addFrame(0, 0, 64, 64, pixels, { delay: 5 + f })
+    }
+    writer.end()
+    return writer.toUint8Array()
+  }
+
+  it('stores only what changed and plays back the same', () => {
+    const input = recording()
+    const out = optimize(input)
+    const reader = new Reader(Buffer.from(out))
+
+    expect(out.length).toBeLessThan(input.length / 2)
+    expect(compareFrames(input, out).changedPixels).toBe(0)
+    expect(delays(out)).toEqual(delays(input))
+    expect(reader.getLoopCount()).toBe(3)
+
+    // Every frame after the first covers just the square's old and new spot.
+    for (let i = 1; i < reader.numFrames(); i++) {
+      const info = reader.frameInfo(i)
+      expect(info.width).toBe(12)
+      expect(info.height).toBe(8)
+      expect(info.transparent_index).not.toBeNull()
+    }
+  })
+
+  it('clears pixels that turn transparent', () => {
+    // A full frame, then the same with a see-through hole: drawing can't
+    // clear pixels, so the first frame has to be restored to background.
+    const palette = [0x000000, 0xFFFFFF, 0xFF0000, 0x00FF00]
+    const writer = new Writer(null, 16, 16, { palette, loop: 0 })
+    const full = new Uint8Array(256).fill(2)
+    writer.addFrame(0, 0, 16, 16, full, { delay: 10, disposal: 2 })
+    const holed = full.slice()
+    for (let y = 4; y < 8; y++) holed.fill(0, y * 16 + 4, y * 16 + 8)
+    holed[255] = 3
+    writer.addFrame(0, 0, 16, 16, holed, { delay: 10, transparent: 0 })
+    writer.addFrame(15, 15, 1, 1, Uint8Array.of(1), { delay: 10 })
+    writer.end()
+    const input = writer.toUint8Array()
+
+    const out = reencode(input)
+    expect(compareFrames(input, out).changedPixels).toBe(0)
+    const rendered = new Reader(Buffer.from(out)).renderFrame(1)
+    expect(rendered[(5 * 16 + 5) * 4 + 3]).toBe(0)
+  })
+})
+
+describe('duplicate frames', () => {
+  const palette = [0x000000, 0xFFFFFF, 0xFF0000, 0x0000FF]
+  const a = new Uint8Array(64).fill(2)
+  const b = new Uint8Array(64).fill(3)
+
+  function animation(frames: Array<[Uint8Array, number]>, loop: number | null): Uint8Array {
+    const writer = new Writer(null, 8, 8, { palette, loop })
+    for (const [pixels, delay] of frames)
+      writer.addFrame(0, 0, 8, 8, pixels, { delay })
+    writer.end()
+    return writer.toUint8Array()
+  }
+
+  const total = (gif: Uint8Array) => delays(gif).reduce((sum, d) => sum + d, 0)
+
+  it('are folded into the frame before, keeping the timeline', () => {
+    const input = animation([[a, 10], [a, 20], [a, 5], [b, 7], [b, 3], [a, 1]], 2)
+    const out = reencode(input)
+
+    expect(delays(out)).toEqual([35, 10, 1])
+    expect(total(out)).toBe(total(input))
+    expect(new Reader(Buffer.from(out)).getLoopCount()).toBe(2)
+    expect(compareFrames(input, out).changedPixels).toBe(0)
+  })
+
+  it('are kept when the merged delay would overflow', () => {
+    const input = animation([[a, 40000], [a, 30000], [b, 1]], null)
+    const out = reencode(input)
+    expect(delays(out)).toEqual([40000, 30000, 1])
+    expect(new Reader(Buffer.from(out)).getLoopCount()).toBeNull()
+  })
+
+  it('keep comments in front of dropped frames', () => {
+    const writer = new Writer(null, 8, 8, { palette, loop: 0 })
+    writer.addFrame(0, 0, 8, 8, a, { delay: 10 })
+    writer.addComment('on a duplicate')
+    writer.addFrame(0, 0, 8, 8, a, { delay: 10 })
+    writer.addFrame(0, 0, 8, 8, b, { delay: 10 })
+    writer.end()
+
+    const out = reencode(writer.toUint8Array())
+    const reader = new Reader(Buffer.from(out))
+    expect(reader.numFrames()).toBe(2)
+    expect(reader.getComments().map(c => c.text)).toEqual(['on a duplicate'])
+  })
+})
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'bun:test'
+import { Buffer } from 'node:buffer'
+import { GifError, GifFormatError, GifParser, Reader, Writer } from '../src/index'
+
+const PALETTE = [0x000000, 0xFF0000, 0x00FF00, 0x0000FF]
+
+function sample(): Uint8Array {
+  const writer = new Writer(null, 12, 10, { palette: PALETTE, loop: 2 })
+  writer.addComment('first')
+  writer.addFrame(0, 0, 12, 10, Uint8Array.from({ length: 120 }, (_, i) => i % 4), { delay: 7 })
+  writer.addApplicationExtension('EXAMPLE1', '1.0', Uint8Array.of(1, 2, 3))
+  writer.addFrame(2, 3, 4, 5, Uint8Array.from({ length: 20 }, (_, i) => i % 3), {
+    palette: [0x112233, 0x445566, 0x778899, 0xAABBCC],
+    delay: 3,
+    disposal: 2,
+    transparent: 0,
+  })
+  writer.addFrame(0, 0, 12, 10, new Uint8Array(120).fill(3), { interlaced: true })
+  writer.end()
+  return writer.toUint8Array()
+}
+
+function feed(parser: GifParser, bytes: Uint8Array, chunkSize: number): void {
+  for (let p = 0; p < bytes.length; p += chunkSize)
+    parser.feed(bytes.subarray(p, p + chunkSize))
+  parser.end()
+}
+
+describe('GifParser', () => {
+  const gif = sample()
+  const reader = new Reader(Buffer.from(gif))
+
+  for (const chunkSize of [1, 7, 64, gif.length]) {
+    it(`matches Reader when fed ${chunkSize} bytes at a time`, () => {
+      const events: string[] = []
+      const parser = new GifParser({
+        onHeader: header => events.push(`header ${header.width}x${header.height} ${header.globalPaletteSize}`),
+        onFrame: (_frame, index) => events.push(`frame ${index}`),
+        onExtension: extension => events.push(`extension ${extension.label.toString(16)}`),
+        onEnd: () => events.push('end'),
+      })
+      feed(parser, gif, chunkSize)
+
+      expect(events[0]).toBe('header 12x10 4')
+      expect(events.filter(e => e.startsWith('frame'))).toEqual(['frame 0', 'frame 1', 'frame 2'])
+      expect(events.at(-1)).toBe('end')
+
+      expect(parser.isComplete()).toBe(true)
+      expect(parser.numFrames()).toBe(reader.numFrames())
+      expect(parser.getLoopCount()).toBe(2)
+      expect(parser.getGlobalPalette()).toEqual(reader.getGlobalPalette())
+      expect(parser.getComments()).toEqual(reader.getComments())
+      expect(parser.getApplicationExtensions()).toEqual(reader.getApplicationExtensions())
+
+      for (let i = 0; i < reader.numFrames(); i++) {
+        expect(parser.frameInfo(i)).toEqual(reader.frameInfo(i))
+        expect(parser.getFramePalette(i)).toEqual(reader.getFramePalette(i))
+        const expected = new Uint8Array(12 * 10 * 4)
+        const actual = new Uint8Array(12 * 10 * 4)
+        reader.decodeAndBlitFrameRGBA(i, expected)
+        parser.decodeAndBlitFrameRGBA(i, actual)
+        expect(actual).toEqual(expected)
+      }
+    })
+  }
+
+  it('can decode a frame before the rest has arrived', () => {
+    let decoded: Uint8Array | null = null
+    const parser = new GifParser({
+      onFrame: (_frame, index) => {
+        if (index !== 0) return
+        decoded = new Uint8Array(12 * 10 * 4)
+        parser.decodeAndBlitFrameRGBA(0, decoded)
+      },
+    })
+    const firstFrameEnd = reader.frameInfo(0).data_offset + reader.frameInfo(0).data_length
+    parser.feed(gif.subarray(0, firstFrameEnd + 1))
+
+    expect(parser.numFrames()).toBe(1)
+    expect(parser.isComplete()).toBe(false)
+    const expected = new Uint8Array(12 * 10 * 4)
+    reader.decodeAndBlitFrameRGBA(0, expected)
+    expect(decoded!).toEqual(expected)
+  })
+
+  it('rejects truncated input and feeding after end()', () => {
+    const truncated = new GifParser()
+    truncated.feed(gif.subarray(0, gif.length - 20))
+    expect(() => truncated.end()).toThrow(GifFormatError)
+
+    const parser = new GifParser()
+    feed(parser, gif, gif.length)
+    let error: unknown
+    try {
+      parser.feed(Uint8Array.of(0))
+    }
+    catch (e) {
+      error = e
+    }
+    expect(error).toBeInstanceOf(GifError)
+    expect((error as GifError).code).toBe('parser-ended')
+  })
+})
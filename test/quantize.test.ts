@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'bun:test'
+import { createPaletteMatcher, padPalette, quantize } from '../src/index'
+
+/** RGBA image from a per-pixel `[r, g, b, a]` function. */
+function image(width: number, height: number, pixel: (x: number, y: number) => number[]): Uint8Array {
+  const rgba = new Uint8Array(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++)
+      rgba.set(pixel(x, y), (y * width + x) * 4)
+  }
+  return rgba
+}
+
+/** Colour every pixel maps to, or -1 for the transparent slot. */
+function mapped(result: { palette: number[], indices: Uint8Array, transparent?: number }): number[] {
+  return Array.from(result.indices, i => (i === result.transparent ? -1 : result.palette[i]))
+}
+
+describe('quantize', () => {
+  const gradient = image(64, 64, (x, y) => [x * 4, y * 4, (x + y) * 2, 255])
+
+  it('keeps colours exactly when they fit', () => {
+    const colours = [0xFF0000, 0x00FF00, 0x0000FF]
+    const rgba = image(6, 2, x => [colours[x % 3] >> 16, colours[x % 3] >> 8 & 0xFF, colours[x % 3] & 0xFF, 255])
+
+    for (const method of ['median-cut', 'octree'] as const) {
+      const result = quantize(rgba, 6, 2, { method })
+      expect(result.palette.length).toBe(4)
+      expect(result.transparent).toBeUndefined()
+      expect(mapped(result)).toEqual(Array.from({ length: 12 }, (_, i) => colours[i % 6 % 3]))
+    }
+  })
+
+  it('gives see-through pixels their own slot', () => {
+    const rgba = image(4, 1, x => (x < 2 ? [0, 0, 0, 0] : [255, 255, 255, 255]))
+    const result = quantize(rgba, 4, 1)
+    expect(result.transparent).toBe(1)
+    expect(mapped(result)).toEqual([-1, -1, 0xFFFFFF, 0xFFFFFF])
+
+    // With a threshold of 0 every pixel counts as opaque.
+    expect(quantize(rgba, 4, 1, { alphaThreshold: 0 }).transparent).toBeUndefined()
+  })
+
+  for (const method of ['median-cut', 'octree'] as const) {
+    it(`reduces to maxColors with ${method}`, () => {
+      const result = quantize(gradient, 64, 64, { method, maxColors: 16 })
+      expect(result.palette.length).toBe(16)
+      expect(result.indices.length).toBe(64 * 64)
+      expect(Math.max(...result.indices)).toBeLessThan(16)
+
+      // Every pixel lands on a colour close to its own.
+      let error = 0
+      for (let p = 0; p < 64 * 64; p++) {
+        const colour = result.palette[result.indices[p]]
+        error += Math.abs((colour >> 16) - gradient[p * 4])
+          + Math.abs((colour >> 8 & 0xFF) - gradient[p * 4 + 1])
+          + Math.abs((colour & 0xFF) - gradient[p * 4 + 2])
+      }
+      expect(error / (64 * 64 * 3)).toBeLessThan(24)
+    })
+  }
+
+  it('counts the transparent slot against maxColors', () => {
+    const rgba = image(64, 64, (x, y) => (x < 8 ? [0, 0, 0, 0] : [x * 4, y * 4, 0, 255]))
+    const result = quantize(rgba, 64, 64, { maxColors: 8 })
+    expect(result.palette.length).toBe(8)
+    expect(result.transparent).toBe(7)
+    expect(result.indices.filter(i => i === 7).length).toBe(8 * 64)
+  })
+
+  it('rejects bad arguments', () => {
+    expect(() => quantize(gradient, 0, 64)).toThrow()
+    expect(() => quantize(gradient, 65, 64)).toThrow()
+    expect(() => quantize(gradient, 64, 64, { maxColors: 1 })).toThrow()
+    expect(() => quantize(gradient, 64, 64, { maxColors: 257 })).toThrow()
+  })
+})
+
+describe('padPalette', () => {
+  it('pads to a power of two with black', () => {
+    expect(padPalette([0xFFFFFF])).toEqual([0xFFFFFF, 0])
+    expect(padPalette([1, 2, 3])).toEqual([1, 2, 3, 0])
+    expect(padPalette(Array.from({ length: 5 }, (_, i) => i + 1))).toHaveLength(8)
+    expect(() => padPalette(Array.from({ length: 257 }, () => 0))).toThrow()
+  })
+})
+
+describe('createPaletteMatcher', () => {
+  it('returns the nearest entry and never the skipped one', () => {
+    const palette = [0x000000, 0xFFFFFF, 0xFF0000, 0x101010]
+    const match = createPaletteMatcher(palette)
+    expect(match(250, 250, 250)).toBe(1)
+    expect(match(200, 20, 20)).toBe(2)
+    expect(match(14, 14, 14)).toBe(3)
+
+    expect(createPaletteMatcher(palette, 4, 3)(14, 14, 14)).toBe(0)
+    expect(createPaletteMatcher(palette, 2)(200, 20, 20)).toBe(0)
+  })
+})
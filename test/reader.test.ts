@@ -0,0 +1,202 @@
+import { describe, expect, it } from 'bun:test'
+import { Buffer } from 'node:buffer'
+import { GifFormatError, Reader, Writer } from '../src/index'
+
+function rgbaAt(pixels: Uint8Array, i: number): number[] {
+  return Array.from(pixels.subarray(i * 4, i * 4 + 4))
+}
+
+describe('Reader', () => {
+  it('decodes a frame with a local palette', () => {
+    const buf = Buffer.alloc(1024)
+    const writer = new Writer(buf, 2, 2, { palette: [0x000000, 0xFFFFFF] })
+    writer.addFrame(0, 0, 2, 2, new Uint8Array([0, 1, 2, 3]), {
+      palette: [0xFF0000, 0x00FF00, 0x0000FF, 0x123456],
+    })
+    writer.addFrame(0, 0, 2, 2, new Uint8Array([1, 0, 1, 0]))
+    const size = writer.end()
+
+    const reader = new Reader(buf.subarray(0, size))
+    const pixels = new Uint8Array(2 * 2 * 4)
+    reader.decodeAndBlitFrameRGBA(0, pixels)
+    expect([0, 1, 2, 3].map(i => rgbaAt(pixels, i))).toEqual([
+      [0xFF, 0x00, 0x00, 0xFF],
+      [0x00, 0xFF, 0x00, 0xFF],
+      [0x00, 0x00, 0xFF, 0xFF],
+      [0x12, 0x34, 0x56, 0xFF],
+    ])
+
+    // The frame after it, back on the global palette, still decodes.
+    reader.decodeAndBlitFrameRGBA(1, pixels)
+    expect(rgbaAt(pixels, 0)).toEqual([0xFF, 0xFF, 0xFF, 0xFF])
+    expect(rgbaAt(pixels, 1)).toEqual([0x00, 0x00, 0x00, 0xFF])
+  })
+})
+
+describe('Reader.frames', () => {
+  function sample(): Buffer {
+    const writer = new Writer(null, 2, 1, { palette: [0x000000, 0xFFFFFF], loop: 0 })
+    writer.addFrame(0, 0, 2, 1, new Uint8Array([0, 1]), { delay: 5 })
+    writer.addFrame(1, 0, 1, 1, new Uint8Array([0]), { delay: 12 })
+    writer.addFrame(0, 0, 1, 1, new Uint8Array([1]), { delay: 3 })
+    writer.end()
+    return Buffer.from(writer.toUint8Array())
+  }
+
+  it('yields every composited frame with its delay in milliseconds', async () => {
+    const reader = new Reader(sample())
+    const seen: Array<{ index: number, delay: number, rgba: number[] }> = []
+    for await (const { index, delay, rgba, frame } of reader.frames()) {
+      expect(frame).toEqual(reader.frameInfo(index))
+      seen.push({ index, delay, rgba: Array.from(rgba) })
+    }
+
+    expect(seen).toEqual([
+      { index: 0, delay: 50, rgba: [0, 0, 0, 255, 255, 255, 255, 255] },
+      { index: 1, delay: 120, rgba: [0, 0, 0, 255, 0, 0, 0, 255] },
+      { index: 2, delay: 30, rgba: [255, 255, 255, 255, 0, 0, 0, 255] },
+    ])
+  })
+
+  it('reuses one buffer when asked to', async () => {
+    const reader = new Reader(sample())
+    const buffers = new Set<Uint8Array>()
+    for await (const { rgba } of reader.frames({ reuseBuffer: true }))
+      buffers.add(rgba)
+    expect(buffers.size).toBe(1)
+
+    buffers.clear()
+    for await (const { rgba } of reader.frames())
+      buffers.add(rgba)
+    expect(buffers.size).toBe(3)
+  })
+})
+
+describe('Reader screen properties', () => {
+  it('reports the background colour, aspect ratio and palettes', () => {
+    const global = [0x000000, 0x336699, 0xFFFFFF, 0xFF0000]
+    const local = [0x010203, 0x040506]
+    const writer = new Writer(null, 2, 1, { palette: global, background: 1, pixelAspectRatio: 2 })
+    writer.addFrame(0, 0, 2, 1, new Uint8Array([0, 1]))
+    writer.addFrame(0, 0, 2, 1, new Uint8Array([1, 0]), { palette: local })
+    writer.end()
+    const reader = new Reader(Buffer.from(writer.toUint8Array()))
+
+    expect(reader.getBackgroundIndex()).toBe(1)
+    expect(reader.getBackgroundColor()).toBe(0x336699)
+    // Stored as (N + 15) / 64, so 2 comes back exactly.
+    expect(reader.getPixelAspectRatio()).toBe(2)
+    expect(reader.getGlobalPalette()).toEqual(global)
+    expect(reader.getFramePalette(0)).toEqual(global)
+    expect(reader.getFramePalette(1)).toEqual(local)
+  })
+
+  it('reports null without a global palette or aspect ratio', () => {
+    const writer = new Writer(null, 2, 1)
+    writer.addFrame(0, 0, 2, 1, new Uint8Array([0, 1]), { palette: [0x000000, 0xFFFFFF] })
+    writer.end()
+    const reader = new Reader(Buffer.from(writer.toUint8Array()))
+
+    expect(reader.getGlobalPalette()).toBeNull()
+    expect(reader.getBackgroundColor()).toBeNull()
+    expect(reader.getPixelAspectRatio()).toBeNull()
+    expect(reader.getFramePalette(0)).toEqual([0x000000, 0xFFFFFF])
+  })
+
+  it('rejects a pixel aspect ratio the byte can\'t hold', () => {
+    expect(() => new Writer(null, 2, 1, { pixelAspectRatio: 0.1 })).toThrow()
+    expect(() => new Writer(null, 2, 1, { pixelAspectRatio: 5 })).toThrow()
+  })
+})
+
+describe('Reader lenient mode', () => {
+  const palette = [0x000000, 0xFFFFFF, 0xFF0000, 0x0000FF]
+
+  function sample(): Uint8Array {
+    const writer = new Writer(null, 8, 8, { palette, loop: 0 })
+    writer.addFrame(0, 0, 8, 8, new Uint8Array(64).fill(1), { delay: 5 })
+    writer.addFrame(0, 0, 8, 8, Uint8Array.from({ length: 64 }, (_, i) => i % 4), { delay: 5 })
+    writer.end()
+    return writer.toUint8Array()
+  }
+
+  it('keeps what arrived of a truncated file', () => {
+    const gif = sample()
+    const second = new Reader(Buffer.from(gif)).frameInfo(1)
+    const cut = Buffer.from(gif.subarray(0, second.data_offset + 6))
+
+    let error: unknown
+    try {
+      void new Reader(cut)
+    }
+    catch (e) {
+      error = e
+    }
+    expect(error).toBeInstanceOf(GifFormatError)
+    expect((error as GifFormatError).code).toBe('truncated')
+
+    const reader = new Reader(cut, { lenient: true })
+    expect(reader.numFrames()).toBe(2)
+    expect(reader.frameInfo(0).partial).toBe(false)
+    expect(reader.frameInfo(1).partial).toBe(true)
+
+    // The missing pixels stay transparent, the ones before them decode.
+    const pixels = new Uint8Array(8 * 8 * 4)
+    reader.decodeAndBlitFrameRGBA(1, pixels)
+    expect(rgbaAt(pixels, 1)).toEqual([0xFF, 0xFF, 0xFF, 0xFF])
+    expect(rgbaAt(pixels, 63)).toEqual([0, 0, 0, 0])
+  })
+
+  it('stops at a corrupt block without blaming an intact frame', () => {
+    const gif = sample().slice()
+    const second = new Reader(Buffer.from(gif)).frameInfo(1)
+    // Turn the second frame's image descriptor into an unknown block; the
+    // graphics control block before it still parses.
+    gif[second.data_offset - 10] = 0x99
+
+    expect(() => new Reader(Buffer.from(gif))).toThrow(GifFormatError)
+    const reader = new Reader(Buffer.from(gif), { lenient: true })
+    expect(reader.numFrames()).toBe(1)
+    expect(reader.frameInfo(0).partial).toBe(false)
+    expect(reader.renderFrame(0).subarray(0, 4)).toEqual(Uint8Array.of(0xFF, 0xFF, 0xFF, 0xFF))
+  })
+
+  it('marks a frame whose data runs into garbage', () => {
+    const gif = sample().slice()
+    const first = new Reader(Buffer.from(gif)).frameInfo(0)
+    gif[first.data_offset + first.data_length] = 0x99
+
+    const reader = new Reader(Buffer.from(gif), { lenient: true })
+    expect(reader.numFrames()).toBe(1)
+    expect(reader.frameInfo(0).partial).toBe(true)
+  })
+
+  it('leaves a complete frame unmarked when a comment after it is broken', () => {
+    const writer = new Writer(null, 8, 8, { palette, loop: 0 })
+    writer.addFrame(0, 0, 8, 8, new Uint8Array(64).fill(1), { delay: 5 })
+    writer.addComment('broken')
+    writer.addFrame(0, 0, 8, 8, new Uint8Array(64).fill(2), { delay: 5 })
+    writer.end()
+    const gif = writer.toUint8Array()
+    const first = new Reader(Buffer.from(gif)).frameInfo(0)
+
+    // The comment's first sub-block claims more bytes than the file has.
+    const corrupt = gif.slice()
+    corrupt[first.data_offset + first.data_length + 2] = 0xFF
+    expect(() => new Reader(Buffer.from(corrupt))).toThrow(GifFormatError)
+
+    const reader = new Reader(Buffer.from(corrupt), { lenient: true })
+    expect(reader.numFrames()).toBe(1)
+    expect(reader.frameInfo(0).partial).toBe(false)
+    expect(reader.getComments()).toEqual([])
+  })
+
+  it('changes nothing for a clean file', () => {
+    const gif = Buffer.from(sample())
+    const strict = new Reader(gif)
+    const lenient = new Reader(gif, { lenient: true })
+    expect(lenient.numFrames()).toBe(strict.numFrames())
+    for (let i = 0; i < strict.numFrames(); i++)
+      expect(lenient.frameInfo(i)).toEqual(strict.frameInfo(i))
+  })
+})
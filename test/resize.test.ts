@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'bun:test'
+import { Buffer } from 'node:buffer'
+import { GifEncodeError, GifLimitError, Reader, resize, validate, Writer } from '../src/index'
+
+const PALETTE = [0x000000, 0xFFFFFF, 0xFF0000, 0x0000FF]
+
+/** A 4×4 checkerboard, then a red 2×2 patch drawn over its middle. */
+function sample(): Uint8Array {
+  const writer = new Writer(null, 4, 4, { palette: PALETTE, loop: 2 })
+  const board = Uint8Array.from({ length: 16 }, (_, p) => ((p & 3) + (p >> 2)) & 1)
+  writer.addFrame(0, 0, 4, 4, board, { delay: 10 })
+  writer.addFrame(1, 1, 2, 2, new Uint8Array(4).fill(2), { delay: 20 })
+  writer.end()
+  return writer.toUint8Array()
+}
+
+/** Composited RGBA of every frame. */
+function render(gif: Uint8Array): Uint8Array[] {
+  const reader = new Reader(Buffer.from(gif))
+  return Array.from({ length: reader.numFrames() }, (_, i) => reader.renderFrame(i))
+}
+
+describe('resize', () => {
+  it('scales index streams exactly with nearest', () => {
+    const out = resize(sample(), { width: 8, height: 8, filter: 'nearest' })
+    const reader = new Reader(Buffer.from(out))
+
+    expect([reader.getWidth(), reader.getHeight()]).toEqual([8, 8])
+    expect(reader.getLoopCount()).toBe(2)
+    expect(reader.getGlobalPalette()!.slice(0, 4)).toEqual(PALETTE)
+    expect([reader.frameInfo(0).delay, reader.frameInfo(1).delay]).toEqual([10, 20])
+    expect(reader.frameInfo(1)).toMatchObject({ x: 2, y: 2, width: 4, height: 4 })
+
+    // Every output pixel is its source pixel, doubled.
+    const [small, big] = [render(sample())[1], render(out)[1]]
+    for (let y = 0; y < 8; y++) {
+      for (let x = 0; x < 8; x++) {
+        const o = (y * 8 + x) * 4
+        const s = ((y >> 1) * 4 + (x >> 1)) * 4
+        expect(Array.from(big.subarray(o, o + 4))).toEqual(Array.from(small.subarray(s, s + 4)))
+      }
+    }
+  })
+
+  it('keeps a frame that shrinks to nothing as an invisible pixel', () => {
+    const writer = new Writer(null, 8, 8, { palette: PALETTE })
+    writer.addFrame(0, 0, 8, 8, new Uint8Array(64), { delay: 10 })
+    writer.addFrame(3, 3, 1, 1, Uint8Array.of(2), { delay: 30 })
+    writer.end()
+
+    const reader = new Reader(Buffer.from(resize(writer.toUint8Array(), { width: 2, height: 2, filter: 'nearest' })))
+    expect(reader.numFrames()).toBe(2)
+    expect(reader.frameInfo(1)).toMatchObject({ width: 1, height: 1, delay: 30, transparent_index: 0 })
+  })
+
+  it('resamples composited frames with the smooth filters', () => {
+    for (const filter of ['bilinear', 'lanczos'] as const) {
+      const out = resize(sample(), { width: 2, height: 2, filter })
+      const reader = new Reader(Buffer.from(out))
+      expect(validate(out), filter).toEqual([])
+      expect([reader.getWidth(), reader.getHeight(), reader.numFrames()]).toEqual([2, 2, 2])
+      expect(reader.getLoopCount()).toBe(2)
+
+      // Shrinking the checkerboard averages it to grey.
+      const [first] = render(out)
+      for (let p = 0; p < 4; p++) {
+        expect(first[p * 4]).toBeGreaterThan(64)
+        expect(first[p * 4]).toBeLessThan(192)
+      }
+    }
+  })
+
+  it('keeps comments, application extensions and the aspect ratio', () => {
+    const xmp = new TextEncoder().encode('<x:xmpmeta/>')
+    const writer = new Writer(null, 4, 4, { palette: PALETTE, loop: 0, pixelAspectRatio: 2 })
+    writer.addApplicationExtension('XMP Data', 'XMP', xmp)
+    writer.addComment('(c) somebody')
+    writer.addFrame(0, 0, 4, 4, new Uint8Array(16).fill(1), { delay: 10 })
+    writer.addComment('between')
+    writer.addFrame(0, 0, 4, 4, new Uint8Array(16).fill(2), { delay: 10 })
+    writer.addComment('after')
+    writer.end()
+    const input = writer.toUint8Array()
+
+    for (const filter of ['nearest', 'lanczos'] as const) {
+      const reader = new Reader(Buffer.from(resize(input, { width: 2, height: 2, filter })))
+      expect(reader.getPixelAspectRatio(), filter).toBe(2)
+      expect(reader.getComments().map(c => [c.text, c.frameIndex])).toEqual([['(c) somebody', 0], ['between', 1], ['after', 2]])
+      const apps = reader.getApplicationExtensions()
+      expect(apps.map(a => [a.identifier, a.frameIndex])).toEqual([['XMP Data', 0]])
+      expect(apps[0].data).toEqual(xmp)
+    }
+  })
+
+  it('rejects bad sizes and unknown filters', () => {
+    expect(() => resize(sample(), { width: 0, height: 4 })).toThrow(GifLimitError)
+    expect(() => resize(sample(), { width: 4, height: 70000 })).toThrow(GifLimitError)
+    try {
+      resize(sample(), { width: 2, height: 2, filter: 'cubic' as 'lanczos' })
+      expect.unreachable()
+    }
+    catch (e) {
+      expect(e).toBeInstanceOf(GifEncodeError)
+      expect((e as GifEncodeError).code).toBe('invalid-option')
+    }
+  })
+})
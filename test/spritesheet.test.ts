@@ -0,0 +1,109 @@
+import type { GifErrorCode, SpriteSheetFrame, SpriteSheetLayout } from '../src/index'
+import { describe, expect, it } from 'bun:test'
+import { Buffer } from 'node:buffer'
+import { fromSpriteSheet, GifEncodeError, GifError, GifLimitError, Reader, toSpriteSheet, Writer } from '../src/index'
+
+const PALETTE = [0x000000, 0xFFFFFF, 0xFF0000, 0x0000FF]
+
+/** Three 2×2 frames, one solid colour each, shown for 3, 6 and 9 hundredths. */
+function sample(): Reader {
+  const writer = new Writer(null, 2, 2, { palette: PALETTE, loop: 0 })
+  for (let f = 1; f < 4; f++)
+    writer.addFrame(0, 0, 2, 2, new Uint8Array(4).fill(f), { delay: f * 3 })
+  writer.end()
+  return new Reader(Buffer.from(writer.toUint8Array()))
+}
+
+/** Every frame composited, as RGBA. */
+function rendered(reader: Reader): number[][] {
+  return Array.from({ length: reader.numFrames() }, (_, i) => Array.from(reader.renderFrame(i)))
+}
+
+function sprite(frame: SpriteSheetFrame['frame'], extra: Partial<SpriteSheetFrame> = {}): SpriteSheetFrame {
+  return {
+    filename: 'f',
+    frame,
+    rotated: false,
+    trimmed: false,
+    spriteSourceSize: { x: 0, y: 0, w: frame.w, h: frame.h },
+    sourceSize: { w: frame.w, h: frame.h },
+    ...extra,
+  }
+}
+
+describe('sprite sheets', () => {
+  it('pack frames on a grid and read them back', () => {
+    const reader = sample()
+    const sheet = toSpriteSheet(reader, { padding: 1 })
+    const frames = sheet.layout.frames as SpriteSheetFrame[]
+
+    // Two columns make the grid square: 2 × 2 cells with 1 pixel around each.
+    expect([sheet.width, sheet.height]).toEqual([7, 7])
+    expect(sheet.layout.meta.size).toEqual({ w: 7, h: 7 })
+    expect(frames.map(f => [f.frame.x, f.frame.y, f.duration])).toEqual([[1, 1, 30], [4, 1, 60], [1, 4, 90]])
+    expect(Array.from(sheet.pixels.subarray(0, 4))).toEqual([0, 0, 0, 0])
+
+    const back = new Reader(Buffer.from(fromSpriteSheet(sheet.pixels, sheet.layout)))
+    expect(rendered(back)).toEqual(rendered(reader))
+    expect(back.getLoopCount()).toBe(0)
+    expect([0, 1, 2].map(i => back.frameInfo(i).delay)).toEqual([3, 6, 9])
+  })
+
+  it('can be indexed with one palette', () => {
+    const reader = sample()
+    const sheet = toSpriteSheet(reader, { columns: 3, format: 'indexed' })
+    expect([sheet.width, sheet.height, sheet.pixels.length]).toEqual([6, 2, 12])
+    expect(sheet.palette).not.toBeNull()
+    expect(sheet.layout.meta.format).toBe('INDEXED8')
+    expect(toSpriteSheet(reader).layout.meta.format).toBe('RGBA8888')
+
+    const back = new Reader(Buffer.from(fromSpriteSheet(sheet.pixels, sheet.layout, { palette: sheet.palette! })))
+    expect(rendered(back)).toEqual(rendered(reader))
+  })
+
+  it('read the hash layout, trimmed and rotated frames', () => {
+    // A 3×2 sheet of indices: a 2×1 sprite at the top, and the same sprite
+    // stored turned clockwise in the last column.
+    const pixels = Uint8Array.of(2, 3, 2, 0, 0, 3)
+    const layout: SpriteSheetLayout = {
+      frames: {
+        'a.png': sprite({ x: 0, y: 0, w: 2, h: 1 }, { trimmed: true, spriteSourceSize: { x: 0, y: 1, w: 2, h: 1 }, sourceSize: { w: 2, h: 2 }, duration: 50 }),
+        'b.png': sprite({ x: 2, y: 0, w: 2, h: 1 }, { rotated: true }),
+      },
+      meta: { size: { w: 3, h: 2 } },
+    }
+    const out = fromSpriteSheet(pixels, layout, { palette: PALETTE, transparent: 0, delay: 20, loop: null })
+    const reader = new Reader(Buffer.from(out))
+
+    expect([reader.getWidth(), reader.getHeight(), reader.getLoopCount()]).toEqual([2, 2, null])
+    expect([reader.frameInfo(0).delay, reader.frameInfo(1).delay]).toEqual([5, 2])
+    const red = (rgba: Uint8Array) => Array.from({ length: 4 }, (_, p) => rgba[p * 4 + 3] === 0 ? '.' : rgba[p * 4] === 255 ? 'r' : 'b').join('')
+    expect(red(reader.renderFrame(0))).toBe('..rb')
+    expect(red(reader.renderFrame(1))).toBe('rb..')
+  })
+
+  it('reject bad options and layouts', () => {
+    const sheet = toSpriteSheet(sample())
+    const trimmed = sprite({ x: 0, y: 0, w: 1, h: 1 }, { trimmed: true, sourceSize: { w: 2, h: 2 } })
+    const cases: Array<[() => unknown, typeof GifError, GifErrorCode]> = [
+      [() => toSpriteSheet(sample(), { format: 'png' as 'rgba' }), GifEncodeError, 'invalid-option'],
+      [() => toSpriteSheet(sample(), { columns: 0 }), GifLimitError, 'column-count-out-of-range'],
+      [() => toSpriteSheet(sample(), { padding: 0.5 }), GifLimitError, 'padding-out-of-range'],
+      [() => fromSpriteSheet(sheet.pixels, { ...sheet.layout, frames: [] }), GifEncodeError, 'no-frames'],
+      [() => fromSpriteSheet(sheet.pixels.subarray(4), sheet.layout), GifEncodeError, 'not-enough-pixels'],
+      [() => fromSpriteSheet(sheet.pixels, { ...sheet.layout, frames: [sprite({ x: 3, y: 0, w: 2, h: 2 })] }), GifLimitError, 'dimensions-out-of-range'],
+      // Nothing to fill around the trimmed frame with.
+      [() => fromSpriteSheet(new Uint8Array(4), { frames: [trimmed], meta: { size: { w: 2, h: 2 } } }, { palette: PALETTE }), GifEncodeError, 'invalid-option'],
+    ]
+    for (const [call, type, code] of cases) {
+      try {
+        call()
+        expect.unreachable()
+      }
+      catch (e) {
+        expect(e).toBeInstanceOf(type)
+        expect((e as GifError).code).toBe(code)
+      }
+    }
+  })
+})
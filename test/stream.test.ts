@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'bun:test'
+import { Buffer } from 'node:buffer'
+import { Writable } from 'node:stream'
+import { GifEncodeError, StreamWriter, Writer } from '../src/index'
+
+const PALETTE = [0x000000, 0xFF0000, 0x00FF00, 0x0000FF]
+const FRAMES = [0, 1, 2].map(f => Uint8Array.from({ length: 16 * 16 }, (_, i) => (i + f * 5) % 4))
+
+/** The same animation through a plain growable Writer. */
+function buffered(): Uint8Array {
+  const writer = new Writer(null, 16, 16, { palette: PALETTE, loop: 0 })
+  writer.addComment('streamed')
+  for (const indices of FRAMES)
+    writer.addFrame(0, 0, 16, 16, indices, { delay: 4 })
+  writer.end()
+  return writer.toUint8Array()
+}
+
+async function stream(writer: StreamWriter): Promise<void> {
+  await writer.addComment('streamed')
+  for (const indices of FRAMES)
+    await writer.addFrame(0, 0, 16, 16, indices, { delay: 4 })
+  await writer.end()
+}
+
+function concatChunks(chunks: Uint8Array[]): Uint8Array {
+  return Uint8Array.from(Buffer.concat(chunks))
+}
+
+describe('StreamWriter', () => {
+  it('writes the same bytes as Writer to a WritableStream', async () => {
+    const chunks: Uint8Array[] = []
+    const sink = new WritableStream<Uint8Array>({ write: (chunk) => { chunks.push(chunk) } })
+    const writer = new StreamWriter(sink, 16, 16, { palette: PALETTE, loop: 0 })
+    await stream(writer)
+
+    const out = concatChunks(chunks)
+    expect(out).toEqual(buffered())
+    expect(writer.getBytesWritten()).toBe(out.length)
+    // Header and every block went out separately, not all at the end.
+    expect(chunks.length).toBeGreaterThan(FRAMES.length)
+  })
+
+  it('writes the same bytes as Writer to a Node stream', async () => {
+    const chunks: Uint8Array[] = []
+    const sink = new Writable({
+      highWaterMark: 16,
+      write: (chunk, _encoding, done) => {
+        chunks.push(chunk)
+        setTimeout(done, 1)
+      },
+    })
+    await stream(new StreamWriter(sink, 16, 16, { palette: PALETTE, loop: 0 }))
+    expect(concatChunks(chunks)).toEqual(buffered())
+  })
+
+  it('rejects once ended', async () => {
+    const writer = new StreamWriter(new WritableStream<Uint8Array>(), 16, 16, { palette: PALETTE })
+    await writer.end()
+
+    const calls = [
+      writer.addFrame(0, 0, 16, 16, FRAMES[0]),
+      writer.addPlainText(0, 0, 16, 16, 'hi'),
+      writer.addComment('late'),
+      writer.addApplicationExtension('EXAMPLE1', '1.0', Uint8Array.of(1)),
+    ]
+    for (const call of calls) {
+      expect(call).toBeInstanceOf(Promise)
+      const error = await call.catch((e: unknown) => e)
+      expect(error).toBeInstanceOf(GifEncodeError)
+      expect((error as GifEncodeError).code).toBe('writer-ended')
+    }
+  })
+})
+
+describe('StreamWriter versions', () => {
+  it('refuses \'auto\', which it could never honour', () => {
+    const sink = new WritableStream<Uint8Array>()
+    try {
+      void new StreamWriter(sink, 16, 16, { palette: PALETTE, version: 'auto' })
+      expect.unreachable()
+    }
+    catch (e) {
+      expect(e).toBeInstanceOf(GifEncodeError)
+      expect((e as GifEncodeError).code).toBe('invalid-option')
+    }
+  })
+
+  it('writes GIF87a when asked to', async () => {
+    const chunks: Uint8Array[] = []
+    const sink = new WritableStream<Uint8Array>({ write: (chunk) => { chunks.push(chunk) } })
+    const writer = new StreamWriter(sink, 16, 16, { palette: PALETTE, version: '87a' })
+    await writer.addFrame(0, 0, 16, 16, FRAMES[0])
+    await writer.end()
+    expect(new TextDecoder().decode(concatChunks(chunks).subarray(0, 6))).toBe('GIF87a')
+  })
+})
@@ -0,0 +1,103 @@
+import type { GifErrorCode } from '../src/index'
+import { describe, expect, it } from 'bun:test'
+import { Buffer } from 'node:buffer'
+import { boomerang, GifLimitError, Reader, reverse, scaleDelays, setFrameRate, trim, Writer } from '../src/index'
+
+const PALETTE = [0x000000, 0xFFFFFF, 0xFF0000, 0x0000FF]
+
+/** Four 2×2 frames, one solid colour each, 10/20/30/40 hundredths long. */
+function sample(): Uint8Array {
+  const writer = new Writer(null, 2, 2, { palette: PALETTE, loop: 5 })
+  for (let f = 0; f < 4; f++)
+    writer.addFrame(0, 0, 2, 2, new Uint8Array(4).fill(f), { delay: (f + 1) * 10 })
+  writer.end()
+  return writer.toUint8Array()
+}
+
+function delays(gif: Uint8Array): number[] {
+  const reader = new Reader(Buffer.from(gif))
+  return Array.from({ length: reader.numFrames() }, (_, i) => reader.frameInfo(i).delay)
+}
+
+/** Red channel of the top left pixel of every frame, enough to tell them apart. */
+function colours(gif: Uint8Array): number[] {
+  const reader = new Reader(Buffer.from(gif))
+  return Array.from({ length: reader.numFrames() }, (_, i) => {
+    const rgba = reader.renderFrame(i)
+    return rgba[0] << 16 | rgba[1] << 8 | rgba[2]
+  })
+}
+
+describe('timeline', () => {
+  it('scales delays and sets the frame rate, rounding along the running total', () => {
+    expect(delays(scaleDelays(sample(), 2))).toEqual([20, 40, 60, 80])
+    expect(delays(scaleDelays(sample(), 0.25))).toEqual([3, 5, 7, 10])
+    expect(delays(setFrameRate(sample(), 30))).toEqual([3, 4, 3, 3])
+    expect(new Reader(Buffer.from(setFrameRate(sample(), 30))).getLoopCount()).toBe(5)
+    expect(colours(scaleDelays(sample(), 2))).toEqual(PALETTE)
+  })
+
+  it('never rounds a delay down to 0', () => {
+    // Exact delays of 0.1 .. 0.4 hundredths would round to 0, 0, 1, 1.
+    expect(delays(scaleDelays(sample(), 0.01))).toEqual([1, 1, 1, 1])
+    expect(delays(setFrameRate(sample(), 100))).toEqual([1, 1, 1, 1])
+
+    // Frames that had no delay keep none.
+    const writer = new Writer(null, 2, 2, { palette: PALETTE })
+    writer.addFrame(0, 0, 2, 2, new Uint8Array(4))
+    writer.addFrame(0, 0, 2, 2, new Uint8Array(4).fill(1), { delay: 10 })
+    writer.end()
+    expect(delays(scaleDelays(writer.toUint8Array(), 0.05))).toEqual([0, 1])
+  })
+
+  it('keeps comments, application extensions and plain text when retiming', () => {
+    const writer = new Writer(null, 16, 8, { palette: PALETTE })
+    writer.addApplicationExtension('XMP Data', 'XMP', new TextEncoder().encode('<x/>'))
+    writer.addFrame(0, 0, 16, 8, new Uint8Array(128), { delay: 10 })
+    writer.addComment('between')
+    writer.addPlainText(2, 0, 12, 8, 'AB', { foreground: 2, background: 0, delay: 5 })
+    writer.addFrame(0, 0, 16, 8, new Uint8Array(128).fill(1), { delay: 10 })
+    writer.addComment('after')
+    writer.end()
+
+    const reader = new Reader(Buffer.from(scaleDelays(writer.toUint8Array(), 3)))
+    expect(reader.getApplicationExtensions().map(a => [a.identifier, a.frameIndex])).toEqual([['XMP Data', 0]])
+    expect(reader.getComments().map(c => [c.text, c.frameIndex])).toEqual([['between', 1], ['after', 2]])
+    expect(reader.getPlainTexts()).toMatchObject([{ x: 2, text: 'AB', foreground_index: 2, delay: 5, frame_index: 1 }])
+    expect([reader.frameInfo(0).delay, reader.frameInfo(1).delay]).toEqual([30, 30])
+  })
+
+  it('reverses and boomerangs', () => {
+    expect(colours(reverse(sample()))).toEqual(PALETTE.slice().reverse())
+    expect(delays(reverse(sample()))).toEqual([40, 30, 20, 10])
+    expect(colours(boomerang(sample()))).toEqual([...PALETTE, PALETTE[2], PALETTE[1]])
+    expect(new Reader(Buffer.from(boomerang(sample()))).getLoopCount()).toBe(5)
+  })
+
+  it('trims to a time range, shortening frames cut by it', () => {
+    const out = trim(sample(), { start: 150, end: 450 })
+    expect(colours(out)).toEqual(PALETTE.slice(1, 3))
+    expect(delays(out)).toEqual([15, 15])
+    expect(delays(trim(sample(), { start: 600 }))).toEqual([40])
+  })
+
+  it('rejects bad arguments', () => {
+    const cases: Array<[() => unknown, GifErrorCode]> = [
+      [() => scaleDelays(sample(), 0), 'delay-factor-out-of-range'],
+      [() => scaleDelays(sample(), Number.NaN), 'delay-factor-out-of-range'],
+      [() => setFrameRate(sample(), 101), 'frame-rate-out-of-range'],
+      [() => trim(sample(), { start: 500, end: 500 }), 'trim-range-out-of-range'],
+      [() => trim(sample(), { start: 2000 }), 'trim-range-out-of-range'],
+    ]
+    for (const [call, code] of cases) {
+      try {
+        call()
+        expect.unreachable()
+      }
+      catch (e) {
+        expect(e).toBeInstanceOf(GifLimitError)
+        expect((e as GifLimitError).code).toBe(code)
+      }
+    }
+  })
+})
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'bun:test'
+import { Buffer } from 'node:buffer'
+import { crop, flip, GifEncodeError, GifLimitError, Reader, rotate, validate, Writer } from '../src/index'
+
+const PALETTE = [0x000000, 0xFFFFFF, 0xFF0000, 0x0000FF]
+
+/** A 3×2 screen numbered 0 .. 5 in palette order, then a 1×1 frame on the last pixel. */
+function sample(): Uint8Array {
+  const writer = new Writer(null, 3, 2, { palette: [...PALETTE, 0x00FF00, 0xFFFF00, 0, 0], loop: 1 })
+  writer.addFrame(0, 0, 3, 2, Uint8Array.of(0, 1, 2, 3, 4, 5), { delay: 10 })
+  writer.addFrame(2, 1, 1, 1, Uint8Array.of(0), { delay: 20 })
+  writer.end()
+  return writer.toUint8Array()
+}
+
+/** Colour of every pixel of frame `i`, as palette indices of the sample. */
+function pixels(gif: Uint8Array, i: number): number[] {
+  const reader = new Reader(Buffer.from(gif))
+  const rgba = reader.renderFrame(i)
+  const palette = new Reader(Buffer.from(sample())).getGlobalPalette()!
+  return Array.from({ length: rgba.length / 4 }, (_, p) =>
+    palette.indexOf(rgba[p * 4] << 16 | rgba[p * 4 + 1] << 8 | rgba[p * 4 + 2]))
+}
+
+function size(gif: Uint8Array): [number, number] {
+  const reader = new Reader(Buffer.from(gif))
+  return [reader.getWidth(), reader.getHeight()]
+}
+
+describe('crop, rotate and flip', () => {
+  it('rearrange pixels without touching the palette or timing', () => {
+    const cases: Array<[Uint8Array, [number, number], number[]]> = [
+      [crop(sample(), { x: 1, y: 0, width: 2, height: 2 }), [2, 2], [1, 2, 4, 5]],
+      [rotate(sample(), 90), [2, 3], [3, 0, 4, 1, 5, 2]],
+      [rotate(sample(), 180), [3, 2], [5, 4, 3, 2, 1, 0]],
+      [rotate(sample(), 270), [2, 3], [2, 5, 1, 4, 0, 3]],
+      [flip(sample(), 'horizontal'), [3, 2], [2, 1, 0, 5, 4, 3]],
+      [flip(sample(), 'vertical'), [3, 2], [3, 4, 5, 0, 1, 2]],
+    ]
+    for (const [out, dimensions, first] of cases) {
+      const reader = new Reader(Buffer.from(out))
+      expect(validate(out)).toEqual([])
+      expect(size(out)).toEqual(dimensions)
+      expect(pixels(out, 0)).toEqual(first)
+      expect(reader.getLoopCount()).toBe(1)
+      expect([reader.frameInfo(0).delay, reader.frameInfo(1).delay]).toEqual([10, 20])
+    }
+
+    // The small frame follows its pixel around.
+    const rotated = new Reader(Buffer.from(rotate(sample(), 90)))
+    expect(rotated.frameInfo(1)).toMatchObject({ x: 0, y: 2, width: 1, height: 1 })
+  })
+
+  it('fold a cropped-away frame into the one before', () => {
+    const out = crop(sample(), { x: 0, y: 0, width: 2, height: 2 })
+    const reader = new Reader(Buffer.from(out))
+    expect(reader.numFrames()).toBe(1)
+    expect(reader.frameInfo(0).delay).toBe(30)
+  })
+
+  it('keep comments, application extensions and plain text', () => {
+    const writer = new Writer(null, 16, 16, { palette: PALETTE, loop: 0 })
+    writer.addApplicationExtension('XMP Data', 'XMP', new TextEncoder().encode('<x/>'))
+    writer.addFrame(0, 0, 16, 16, new Uint8Array(256).fill(1), { delay: 10 })
+    writer.addComment('second')
+    writer.addPlainText(8, 8, 6, 8, 'A', { foreground: 2, background: 0 })
+    // Cropped away, but the comment in front of it keeps its place.
+    writer.addFrame(0, 0, 2, 2, new Uint8Array(4).fill(3), { delay: 10 })
+    writer.addComment('last')
+    writer.end()
+    const input = writer.toUint8Array()
+
+    const cropped = new Reader(Buffer.from(crop(input, { x: 4, y: 4, width: 12, height: 12 })))
+    expect(cropped.numFrames()).toBe(2)
+    expect(cropped.getApplicationExtensions().map(a => [a.identifier, a.frameIndex])).toEqual([['XMP Data', 0]])
+    expect(cropped.getComments().map(c => [c.text, c.frameIndex])).toEqual([['second', 1], ['last', 2]])
+    expect(cropped.getPlainTexts()).toMatchObject([{ x: 4, y: 4, width: 6, height: 8, text: 'A', foreground_index: 2, frame_index: 1 }])
+
+    // A grid that doesn't fit the crop, or would have to turn, is dropped.
+    expect(new Reader(Buffer.from(crop(input, { x: 0, y: 0, width: 12, height: 12 }))).getPlainTexts()).toEqual([])
+    for (const turned of [rotate(input, 90), flip(input, 'horizontal')].map(out => new Reader(Buffer.from(out)))) {
+      expect(turned.getPlainTexts()).toEqual([])
+      expect(turned.getComments().map(c => c.text)).toEqual(['second', 'last'])
+      expect(turned.getApplicationExtensions()).toHaveLength(1)
+    }
+  })
+
+  it('keep the background colour and turn the pixel aspect ratio with the picture', () => {
+    const writer = new Writer(null, 4, 2, { palette: PALETTE, background: 2, pixelAspectRatio: 2 })
+    writer.addFrame(0, 0, 4, 2, new Uint8Array(8).fill(1))
+    writer.end()
+    const input = writer.toUint8Array()
+
+    const cases: Array<[Uint8Array, number]> = [
+      [crop(input, { x: 1, y: 0, width: 2, height: 2 }), 2],
+      [rotate(input, 90), 0.5],
+      [rotate(input, 180), 2],
+      [rotate(input, 270), 0.5],
+      [flip(input, 'vertical'), 2],
+    ]
+    for (const [out, aspect] of cases) {
+      const reader = new Reader(Buffer.from(out))
+      expect(reader.getPixelAspectRatio()).toBe(aspect)
+      expect(reader.getBackgroundIndex()).toBe(2)
+      expect(reader.getBackgroundColor()).toBe(0xFF0000)
+    }
+
+    // Square pixels stay unmarked.
+    expect(new Reader(Buffer.from(rotate(sample(), 90))).getPixelAspectRatio()).toBeNull()
+  })
+
+  it('reject bad arguments', () => {
+    expect(() => crop(sample(), { x: 2, y: 0, width: 2, height: 2 })).toThrow(GifLimitError)
+    const codes = [
+      () => rotate(sample(), 45 as 90),
+      () => flip(sample(), 'diagonal' as 'vertical'),
+    ].map((call) => {
+      try {
+        call()
+      }
+      catch (e) {
+        return [(e as Error).constructor, (e as GifLimitError).code]
+      }
+      return null
+    })
+    expect(codes).toEqual([[GifLimitError, 'rotation-out-of-range'], [GifEncodeError, 'invalid-option']])
+  })
+})
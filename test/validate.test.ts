@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'bun:test'
+import { Buffer } from 'node:buffer'
+import { Reader, validate, Writer } from '../src/index'
+
+const PALETTE = [0x000000, 0xFFFFFF, 0xFF0000, 0x0000FF]
+
+/**
+ * A clean two-frame GIF, and where its second frame's graphics control
+ * block and image descriptor start.
+ */
+function sample(): { gif: Uint8Array, control: number, descriptor: number } {
+  const writer = new Writer(null, 4, 4, { palette: PALETTE, loop: 0 })
+  writer.addFrame(0, 0, 4, 4, new Uint8Array(16).fill(1), { delay: 10 })
+  writer.addFrame(1, 1, 2, 2, Uint8Array.of(2, 3, 3, 2), { delay: 10, transparent: 0 })
+  writer.end()
+  const gif = writer.toUint8Array()
+  // Global palette only, so the descriptor is the 10 bytes before the LZW
+  // code size, and the graphics control block the 8 before that.
+  const descriptor = new Reader(Buffer.from(gif)).frameInfo(1).data_offset - 10
+  return { gif, control: descriptor - 8, descriptor }
+}
+
+/** `[severity, code, offset]` of every diagnostic. */
+function summary(buf: Uint8Array): Array<[string, string, number]> {
+  return validate(buf).map(d => [d.severity, d.code, d.offset])
+}
+
+describe('validate', () => {
+  it('finds nothing wrong with what Writer produces', () => {
+    expect(validate(sample().gif)).toEqual([])
+  })
+
+  it('rejects a bad header', () => {
+    const gif = sample().gif.slice()
+    gif[4] = 0x38
+    expect(summary(gif)).toEqual([['error', 'invalid-header', 0]])
+    expect(summary(Uint8Array.of(1, 2, 3))).toEqual([['error', 'invalid-header', 0]])
+  })
+
+  it('reports truncation at the block that got cut', () => {
+    const { gif, descriptor } = sample()
+    expect(summary(gif.subarray(0, 8))).toEqual([['error', 'truncated', 8]])
+    expect(summary(gif.subarray(0, descriptor + 14))).toEqual([['error', 'truncated', descriptor]])
+  })
+
+  it('warns about a missing trailer, stray bytes and data after the trailer', () => {
+    const { gif } = sample()
+    const end = gif.length - 1
+    expect(summary(gif.subarray(0, end))).toEqual([['warning', 'missing-trailer', end]])
+
+    const stray = Uint8Array.from([...gif.subarray(0, end), 0, 0, 0x3B])
+    expect(summary(stray)).toEqual([['warning', 'stray-byte', end]])
+
+    const trailing = Uint8Array.from([...gif, 1, 2, 3])
+    expect(summary(trailing)).toEqual([['warning', 'data-after-trailer', gif.length]])
+  })
+
+  it('checks frames against the screen and their palette', () => {
+    const { gif, control, descriptor } = sample()
+
+    const outside = gif.slice()
+    outside[descriptor + 1] = 3 // x = 3, 2 wide on a 4 wide screen
+    expect(summary(outside)).toEqual([['warning', 'frame-outside-screen', descriptor]])
+
+    const transparent = gif.slice()
+    transparent[control + 6] = 9
+    expect(summary(transparent)).toEqual([['warning', 'transparent-index-out-of-range', control + 6]])
+
+    const disposal = gif.slice()
+    disposal[control + 3] |= 5 << 2
+    expect(summary(disposal)).toEqual([['warning', 'reserved-disposal', control + 3]])
+  })
+
+  it('flags 89a blocks in an 87a file', () => {
+    const gif = sample().gif.slice()
+    gif[4] = 0x37
+    const codes = summary(gif).map(([severity, code]) => `${severity} ${code}`)
+    expect(codes.length).toBeGreaterThan(0)
+    expect(new Set(codes)).toEqual(new Set(['warning extension-in-87a']))
+  })
+
+  it('reports bad LZW data as an error', () => {
+    const { gif, descriptor } = sample()
+    const corrupt = gif.slice()
+    // Past the code size and the first sub-block's length: codes the table
+    // can't hold yet.
+    corrupt.fill(0xFF, descriptor + 12, descriptor + 14)
+    const codes = summary(corrupt).map(([severity, code]) => `${severity} ${code}`)
+    expect(codes).toContain('error invalid-lzw-code')
+  })
+
+  it('keeps going after a warning to find everything', () => {
+    const { gif, control, descriptor } = sample()
+    const both = Uint8Array.from([...gif, 0])
+    both[descriptor + 1] = 3
+    both[control + 6] = 9
+    expect(summary(both).map(([, code]) => code)).toEqual([
+      'frame-outside-screen',
+      'transparent-index-out-of-range',
+      'data-after-trailer',
+    ])
+  })
+})
@@ -0,0 +1,234 @@
+import { describe, expect, it } from 'bun:test'
+import { Buffer } from 'node:buffer'
+import { GifBufferOverflowError, GifEncodeError, GifLimitError, Reader, reencode, validate, Writer } from '../src/index'
+
+const PALETTE = [0x000000, 0xFF0000, 0x00FF00, 0x0000FF]
+
+function encodeRow(pixels: Uint8Array, lossy: number): Buffer {
+  const buf = Buffer.alloc(4096)
+  const writer = new Writer(buf, pixels.length, 1, { palette: PALETTE })
+  writer.addFrame(0, 0, pixels.length, 1, pixels, { lossy })
+  return buf.subarray(0, writer.end())
+}
+
+function decodeRow(gif: Buffer): number[] {
+  const reader = new Reader(gif)
+  const rgba = new Uint8Array(reader.getWidth() * 4)
+  reader.decodeAndBlitFrameRGBA(0, rgba)
+  return Array.from({ length: reader.getWidth() }, (_, i) =>
+    PALETTE.indexOf((rgba[i * 4] << 16) | (rgba[i * 4 + 1] << 8) | rgba[i * 4 + 2]))
+}
+
+describe('LZW end of information code', () => {
+  // With four colours the table starts at code 6 and the code size grows
+  // to 4 bits at code 8 and to 5 bits at code 16. Nineteen pixels of
+  // 0, 1, 2, 3, ... end on the code that fills the 4-bit table, so the end
+  // code has to go out 5 bits wide.
+  const pixels = Uint8Array.from({ length: 19 }, (_, i) => i % 4)
+
+  for (const lossy of [0, 80]) {
+    it(`is written at the grown code size${lossy ? ' (lossy)' : ''}`, () => {
+      const gif = encodeRow(pixels, lossy)
+      expect(validate(gif)).toEqual([])
+      expect(decodeRow(gif)).toEqual(Array.from(pixels))
+    })
+  }
+})
+
+describe('palettes', () => {
+  it('are padded to a power of two instead of rejected', () => {
+    const three = [0xFF0000, 0x00FF00, 0x0000FF]
+    const writer = new Writer(null, 2, 1, { palette: three })
+    writer.addFrame(0, 0, 2, 1, Uint8Array.of(2, 1))
+    writer.addFrame(0, 0, 2, 1, Uint8Array.of(0, 2), { palette: three.slice().reverse() })
+    writer.end()
+    const gif = writer.toUint8Array()
+    const reader = new Reader(Buffer.from(gif))
+
+    expect(validate(gif)).toEqual([])
+    expect(reader.getGlobalPalette()).toEqual([...three, 0])
+    expect(reader.getFramePalette(1)).toEqual([0x0000FF, 0x00FF00, 0xFF0000, 0])
+    const colours = (i: number) => {
+      const rgba = reader.renderFrame(i)
+      return [0, 4].map(o => rgba[o] << 16 | rgba[o + 1] << 8 | rgba[o + 2])
+    }
+    expect(colours(0)).toEqual([0x0000FF, 0x00FF00])
+    expect(colours(1)).toEqual([0x0000FF, 0xFF0000])
+  })
+
+  it('still need 2 .. 256 entries', () => {
+    expect(() => new Writer(null, 2, 1, { palette: [0] })).toThrow(GifLimitError)
+    const writer = new Writer(null, 2, 1)
+    expect(() => writer.addFrame(0, 0, 2, 1, Uint8Array.of(0, 0), { palette: new Array(257).fill(0) })).toThrow(GifLimitError)
+  })
+})
+
+describe('output buffer', () => {
+  const pixels = Uint8Array.from({ length: 64 * 64 }, (_, i) => (i * 7919 >> 3) % 4)
+
+  function write(writer: Writer): number {
+    writer.addFrame(0, 0, 64, 64, pixels, { delay: 5 })
+    writer.addFrame(0, 0, 64, 64, pixels.slice().reverse(), { delay: 5 })
+    return writer.end()
+  }
+
+  it('grows to fit and matches a preallocated buffer', () => {
+    const fixed = Buffer.alloc(65536)
+    const size = write(new Writer(fixed, 64, 64, { palette: PALETTE, loop: 0 }))
+
+    const growable = new Writer(null, 64, 64, { palette: PALETTE, loop: 0 })
+    expect(write(growable)).toBe(size)
+    expect(growable.getOutputBuffer().length).toBeGreaterThanOrEqual(size)
+    expect(growable.toUint8Array()).toEqual(Uint8Array.from(fixed.subarray(0, size)))
+    expect(new Reader(Buffer.from(growable.toUint8Array())).numFrames()).toBe(2)
+  })
+
+  it('throws on overflow of a fixed buffer and keeps what fit', () => {
+    const writer = new Writer(Buffer.alloc(256), 64, 64, { palette: PALETTE })
+    const start = writer.getOutputBufferPosition()
+
+    let error: unknown
+    try {
+      writer.addFrame(0, 0, 64, 64, pixels)
+    }
+    catch (e) {
+      error = e
+    }
+    expect(error).toBeInstanceOf(GifBufferOverflowError)
+    expect((error as GifBufferOverflowError).code).toBe('buffer-overflow')
+    expect((error as GifBufferOverflowError).frameIndex).toBe(0)
+
+    // The failed frame is rolled back; a smaller one still fits.
+    expect(writer.getOutputBufferPosition()).toBe(start)
+    writer.addFrame(0, 0, 2, 2, Uint8Array.of(0, 1, 2, 3))
+    const gif = writer.getOutputBuffer().subarray(0, writer.end())
+    expect(validate(gif)).toEqual([])
+  })
+})
+
+describe('interlacing', () => {
+  function decodeRows(gif: Uint8Array, width: number, height: number): number[] {
+    const rgba = new Uint8Array(width * height * 4)
+    new Reader(Buffer.from(gif)).decodeAndBlitFrameRGBA(0, rgba)
+    return Array.from({ length: width * height }, (_, i) =>
+      PALETTE.indexOf((rgba[i * 4] << 16) | (rgba[i * 4 + 1] << 8) | rgba[i * 4 + 2]))
+  }
+
+  it('stores rows in four passes and decodes them back in order', () => {
+    // Every height up to two full groups of eight, so each pass can be
+    // empty or cut short.
+    for (let height = 1; height <= 17; height++) {
+      const width = 3
+      const pixels = Uint8Array.from({ length: width * height }, (_, i) => Math.floor(i / width) % 4)
+      const writer = new Writer(null, width, height, { palette: PALETTE })
+      writer.addFrame(0, 0, width, height, pixels, { interlaced: true })
+      writer.end()
+      const gif = writer.toUint8Array()
+
+      expect(new Reader(Buffer.from(gif)).frameInfo(0).interlaced).toBe(true)
+      expect(decodeRows(gif, width, height)).toEqual(Array.from(pixels))
+    }
+  })
+
+  it('is kept by reencode()', () => {
+    const pixels = Uint8Array.from({ length: 4 * 9 }, (_, i) => (i >> 2) % 4)
+    const writer = new Writer(null, 4, 9, { palette: PALETTE })
+    writer.addFrame(0, 0, 4, 9, pixels, { interlaced: true })
+    writer.end()
+
+    const out = reencode(writer.toUint8Array())
+    expect(new Reader(Buffer.from(out)).frameInfo(0).interlaced).toBe(true)
+    expect(decodeRows(out, 4, 9)).toEqual(Array.from(pixels))
+  })
+})
+
+describe('GIF version', () => {
+  const header = (gif: Uint8Array) => new TextDecoder().decode(gif.subarray(0, 6))
+
+  function still(version: 'auto' | '87a' | '89a', options: { delay?: number } = {}): Writer {
+    const writer = new Writer(null, 2, 1, { palette: PALETTE, version })
+    writer.addFrame(0, 0, 2, 1, Uint8Array.of(0, 1), options)
+    return writer
+  }
+
+  it('writes 87a when asked and nothing needs 89a', () => {
+    const writer = still('87a')
+    writer.end()
+    const gif = writer.toUint8Array()
+    expect(header(gif)).toBe('GIF87a')
+    expect(writer.getVersion()).toBe('87a')
+    expect(validate(gif)).toEqual([])
+  })
+
+  it('refuses 89a features in 87a', () => {
+    const codes: unknown[] = []
+    const attempts = [
+      () => new Writer(null, 2, 1, { palette: PALETTE, version: '87a', loop: 0 }),
+      () => new Writer(null, 2, 1, { palette: PALETTE, version: '87a', pixelAspectRatio: 2 }),
+      () => still('87a', { delay: 5 }),
+      () => still('87a').addComment('x'),
+      () => still('87a').addApplicationExtension('EXAMPLE1', '1.0', Uint8Array.of(1)),
+      () => still('87a').addPlainText(0, 0, 2, 1, 'x'),
+    ]
+    for (const attempt of attempts) {
+      try {
+        attempt()
+      }
+      catch (e) {
+        codes.push((e as GifEncodeError).code)
+      }
+    }
+    expect(codes).toEqual(Array.from({ length: attempts.length }, () => 'unsupported-in-87a'))
+  })
+
+  it('starts at 87a with auto and upgrades the header on demand', () => {
+    const plain = still('auto')
+    plain.end()
+    expect(header(plain.toUint8Array())).toBe('GIF87a')
+
+    const timed = still('auto')
+    expect(timed.getVersion()).toBe('87a')
+    timed.addFrame(0, 0, 2, 1, Uint8Array.of(1, 0), { delay: 10 })
+    expect(timed.getVersion()).toBe('89a')
+    timed.end()
+    expect(header(timed.toUint8Array())).toBe('GIF89a')
+
+    // Even after end(), a comment still upgrades the header.
+    const late = still('auto')
+    late.end()
+    late.addComment('late')
+    expect(header(late.toUint8Array())).toBe('GIF89a')
+    expect(new Reader(Buffer.from(late.toUint8Array())).getComments()[0].text).toBe('late')
+
+    expect(header(new Writer(null, 2, 1, { palette: PALETTE, version: 'auto', loop: 0 }).toUint8Array())).toBe('GIF89a')
+  })
+
+  it('stays at 87a with auto when an 89a block is rejected', () => {
+    const writer = new Writer(Buffer.alloc(64), 2, 1, { palette: PALETTE, version: 'auto' })
+    writer.addFrame(0, 0, 2, 1, Uint8Array.of(0, 1))
+    writer.end()
+    const attempts = [
+      () => writer.addPlainText(0, 0, 2, 1, 'x', { cellWidth: 0 }),
+      () => writer.addPlainText(0, 0, 2, 1, 'x', { foreground: 9 }),
+      () => writer.addApplicationExtension('XMP Data', 'XMP', Uint8Array.of(60, 0, 62)),
+      // Too big for the fixed buffer, after the checks pass.
+      () => writer.addComment('x'.repeat(100)),
+      () => writer.addFrame(0, 0, 2, 1, Uint8Array.from({ length: 2 }, () => 1), { delay: 5, palette: new Array(256).fill(0) }),
+    ]
+    for (const attempt of attempts) {
+      expect(attempt).toThrow()
+      expect(writer.getVersion()).toBe('87a')
+    }
+
+    const gif = writer.toUint8Array()
+    expect(header(gif)).toBe('GIF87a')
+    expect(validate(gif)).toEqual([])
+    expect(gif.at(-1)).toBe(0x3B)
+  })
+
+  it('defaults to 89a', () => {
+    const writer = new Writer(null, 2, 1, { palette: PALETTE })
+    writer.end()
+    expect(header(writer.toUint8Array())).toBe('GIF89a')
+  })
+})